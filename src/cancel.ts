@@ -0,0 +1,160 @@
+import type { PendingQuery, Row } from "postgres"
+
+import type { LockReference } from "./errors"
+import type { ConnectionMonitor } from "./monitor"
+
+export function throwIfAborted(signal: AbortSignal | undefined) {
+  if (signal?.aborted) throw signal.reason
+}
+
+function isQueryCanceled(error: unknown) {
+  // postgres.js rejects queries cancelled before they are sent with a plain Error.
+  return error instanceof Error && "code" in error && error.code === "57014"
+}
+
+function isDeadlockDetected(error: unknown) {
+  return error instanceof Error && "code" in error && error.code === "40P01"
+}
+
+/**
+ * Awaits a blocking lock query, cancelling it on the server on timeout, abort, or the loss of its connection.
+ *
+ * @param timeoutError - Creates the rejection reason when `timeout` elapses.
+ * @param deadlockError - Creates the rejection reason when PostgreSQL cancels the query to break a deadlock.
+ * @param release - Undoes a grant that completed before the cancellation reached the backend.
+ */
+export async function awaitCancellable(
+  query: PendingQuery<Row[]>,
+  {
+    lock,
+    monitor,
+    signal,
+    timeout,
+  }: {
+    /** The lock to which the loss of the connection is attributed. */
+    lock?: LockReference
+    monitor?: ConnectionMonitor
+    signal?: AbortSignal
+    timeout?: number
+  },
+  timeoutError: (timeout: number) => Error,
+  deadlockError: (cause: unknown) => Error,
+  release: () => Promise<unknown>,
+): Promise<void> {
+  throwIfAborted(signal)
+
+  let cancelled = false
+  let reason: unknown
+  const cancel = (error: unknown) => {
+    if (cancelled) return
+    cancelled = true
+    reason = error
+    query.cancel()
+  }
+
+  const timer =
+    timeout === undefined || timeout === Number.POSITIVE_INFINITY
+      ? undefined
+      : setTimeout(() => cancel(timeoutError(timeout)), Math.max(timeout, 0))
+  const onAbort = () => cancel(signal?.reason)
+  signal?.addEventListener("abort", onAbort)
+  const removeLostListener = monitor?.onLost(cancel, lock)
+
+  try {
+    await query
+  } catch (error) {
+    if (cancelled && isQueryCanceled(error)) throw reason
+    if (isDeadlockDetected(error)) throw deadlockError(error)
+    monitor?.reportFailure(error)
+    throw error
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener("abort", onAbort)
+    removeLostListener?.()
+  }
+
+  if (cancelled) {
+    // A lost or revoked connection must not be queried; it no longer holds the lock anyway.
+    if (!monitor?.lost) await release()
+    throw reason
+  }
+}
+
+/**
+ * Repeats a non-blocking lock attempt every `interval` milliseconds until it succeeds, rejecting on timeout, abort, or the loss of its connection.
+ *
+ * Replaces a blocking lock query on a holder session, where it would stall the other acquisitions sharing the session.
+ *
+ * @param timeoutError - Creates the rejection reason when `timeout` elapses.
+ */
+export async function pollCancellable(
+  attempt: () => Promise<boolean>,
+  {
+    interval,
+    lock,
+    monitor,
+    signal,
+    timeout,
+  }: {
+    interval: number
+    /** The lock to which the loss of the connection is attributed. */
+    lock?: LockReference
+    monitor: ConnectionMonitor
+    signal?: AbortSignal
+    timeout?: number
+  },
+  timeoutError: (timeout: number) => Error,
+): Promise<void> {
+  const deadline =
+    timeout === undefined || timeout === Number.POSITIVE_INFINITY
+      ? undefined
+      : Date.now() + timeout
+
+  for (;;) {
+    throwIfAborted(signal)
+    monitor.throwIfLost(lock)
+    let acquired: boolean
+    try {
+      acquired = await attempt()
+    } catch (error) {
+      monitor.reportFailure(error)
+      throw error
+    }
+    if (acquired) return
+
+    const delay =
+      deadline === undefined
+        ? interval
+        : Math.min(interval, deadline - Date.now())
+    if (delay <= 0) throw timeoutError(timeout ?? 0)
+    await delayCancellable(delay, signal, monitor, lock)
+  }
+}
+
+function delayCancellable(
+  ms: number,
+  signal: AbortSignal | undefined,
+  monitor: ConnectionMonitor,
+  lock: LockReference | undefined,
+) {
+  return new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener("abort", onAbort)
+      removeLostListener()
+    }
+    const onAbort = () => {
+      cleanup()
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      cleanup()
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort)
+    const removeLostListener = monitor.onLost((error) => {
+      cleanup()
+      reject(error)
+    }, lock)
+  })
+}
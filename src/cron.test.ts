@@ -0,0 +1,55 @@
+import { describe, expect, it } from "bun:test"
+
+import { CronExpression } from "./cron"
+
+function next(expression: string, after: string) {
+  return new Date(
+    new CronExpression(expression).next(Date.parse(after)),
+  ).toISOString()
+}
+
+describe("CronExpression", () => {
+  it("finds the next matching minute after the given time", () => {
+    expect(next("* * * * *", "2024-01-01T10:00:30Z")).toBe(
+      "2024-01-01T10:01:00.000Z",
+    )
+    expect(next("30 * * * *", "2024-01-01T10:30:00Z")).toBe(
+      "2024-01-01T11:30:00.000Z",
+    )
+    expect(next("*/15 9-17 * * *", "2024-01-01T17:50:00Z")).toBe(
+      "2024-01-02T09:00:00.000Z",
+    )
+  })
+
+  it("rolls over months and years", () => {
+    expect(next("0 0 1 1 *", "2024-06-15T00:00:00Z")).toBe(
+      "2025-01-01T00:00:00.000Z",
+    )
+    expect(next("0 12 29 2 *", "2024-03-01T00:00:00Z")).toBe(
+      "2028-02-29T12:00:00.000Z",
+    )
+  })
+
+  it("matches either restricted day field", () => {
+    // 2024-01-06 is a Saturday.
+    expect(next("0 0 10 * 6", "2024-01-01T00:00:00Z")).toBe(
+      "2024-01-06T00:00:00.000Z",
+    )
+    expect(next("0 0 * * 7", "2024-01-01T00:00:00Z")).toBe(
+      "2024-01-07T00:00:00.000Z",
+    )
+    expect(next("0 0 1,15 * *", "2024-01-02T00:00:00Z")).toBe(
+      "2024-01-15T00:00:00.000Z",
+    )
+  })
+
+  it("rejects invalid expressions", () => {
+    expect(() => new CronExpression("* * * *")).toThrow(RangeError)
+    expect(() => new CronExpression("60 * * * *")).toThrow(RangeError)
+    expect(() => new CronExpression("5-1 * * * *")).toThrow(RangeError)
+    expect(() => new CronExpression("*/0 * * * *")).toThrow(RangeError)
+    expect(() => new CronExpression("0 0 30 2 *").next(0)).toThrow(
+      "Cron expression never matches",
+    )
+  })
+})
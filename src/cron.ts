@@ -0,0 +1,115 @@
+type CronField = {
+  /** Whether the field is `*`, which matters for combining day of month and day of week. */
+  any: boolean
+  values: ReadonlySet<number>
+}
+
+const fieldRanges = [
+  ["minute", 0, 59],
+  ["hour", 0, 23],
+  ["day of month", 1, 31],
+  ["month", 1, 12],
+  ["day of week", 0, 7],
+] as const
+
+/** Gives up on expressions that never match, such as February 30th. */
+const searchYears = 8
+
+/**
+ * A standard five-field cron expression evaluated in UTC.
+ *
+ * Fields support `*`, numbers, ranges, lists, and `/` steps; day of week 7 is Sunday like 0.
+ * As in cron, a day matches either restricted day field when both are restricted.
+ */
+export class CronExpression {
+  private readonly minutes: CronField
+  private readonly hours: CronField
+  private readonly days: CronField
+  private readonly months: CronField
+  private readonly weekdays: CronField
+
+  constructor(expression: string) {
+    const fields = expression.trim().split(/\s+/)
+    if (fields.length !== fieldRanges.length) {
+      throw new RangeError(
+        `Cron expression must have 5 fields, got "${expression}"`,
+      )
+    }
+
+    const [minutes, hours, days, months, weekdays] = fieldRanges.map(
+      ([name, min, max], index) =>
+        parseField(fields[index] ?? "", name, min, max),
+    ) as [CronField, CronField, CronField, CronField, CronField]
+    this.minutes = minutes
+    this.hours = hours
+    this.days = days
+    this.months = months
+    this.weekdays = {
+      any: weekdays.any,
+      values: new Set(
+        [...weekdays.values].map((weekday) => (weekday === 7 ? 0 : weekday)),
+      ),
+    }
+  }
+
+  /** Returns the first matching minute strictly after `after`, in milliseconds since the epoch. */
+  next(after: number): number {
+    const date = new Date(after)
+    date.setUTCSeconds(0, 0)
+    date.setUTCMinutes(date.getUTCMinutes() + 1)
+    const lastYear = date.getUTCFullYear() + searchYears
+
+    while (date.getUTCFullYear() <= lastYear) {
+      if (!this.months.values.has(date.getUTCMonth() + 1)) {
+        date.setUTCMonth(date.getUTCMonth() + 1, 1)
+        date.setUTCHours(0, 0)
+      } else if (!this.matchesDay(date)) {
+        date.setUTCDate(date.getUTCDate() + 1)
+        date.setUTCHours(0, 0)
+      } else if (!this.hours.values.has(date.getUTCHours())) {
+        date.setUTCHours(date.getUTCHours() + 1, 0)
+      } else if (!this.minutes.values.has(date.getUTCMinutes())) {
+        date.setUTCMinutes(date.getUTCMinutes() + 1)
+      } else {
+        return date.getTime()
+      }
+    }
+
+    throw new RangeError("Cron expression never matches")
+  }
+
+  private matchesDay(date: Date) {
+    const day = this.days.values.has(date.getUTCDate())
+    const weekday = this.weekdays.values.has(date.getUTCDay())
+    if (this.days.any) return weekday
+    if (this.weekdays.any) return day
+    return day || weekday
+  }
+}
+
+function parseField(
+  field: string,
+  name: string,
+  min: number,
+  max: number,
+): CronField {
+  const values = new Set<number>()
+
+  for (const part of field.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part)
+    if (!match) {
+      throw new RangeError(`Invalid cron ${name} field "${field}"`)
+    }
+    const [, range, start, end, step] = match
+    const from = range === "*" ? min : Number(start)
+    const to =
+      range === "*" ? max : end !== undefined ? Number(end) : step ? max : from
+    const increment = step === undefined ? 1 : Number(step)
+    if (from < min || to > max || from > to || increment < 1) {
+      throw new RangeError(`Invalid cron ${name} field "${field}"`)
+    }
+    for (let value = from; value <= to; value += increment) values.add(value)
+  }
+
+  return { any: field === "*", values }
+}
@@ -0,0 +1,260 @@
+import type { AdvisoryLockEvent } from "./hooks"
+
+/**
+ * Base class of the errors thrown by the library, which callers can tell apart from database and application errors.
+ *
+ * Errors about one lock carry its name and namespace chain.
+ * Errors about the manager or a connection shared by several locks leave them undefined.
+ */
+export class AdvisoryLockError extends Error {
+  override readonly name: string = "AdvisoryLockError"
+  readonly lockName: string | undefined
+  readonly namespaces: readonly string[] | undefined
+
+  constructor(
+    message: string,
+    lockName?: string,
+    namespaces?: readonly string[],
+    options?: ErrorOptions,
+  ) {
+    super(message, options)
+    this.lockName = lockName
+    this.namespaces = namespaces
+  }
+}
+
+/**
+ * Thrown when a blocking acquisition does not obtain its lock before the timeout elapses.
+ *
+ * The blocked PostgreSQL query has been cancelled and the lock is not held.
+ */
+export class LockTimeoutError extends AdvisoryLockError {
+  override readonly name = "LockTimeoutError"
+  declare readonly lockName: string
+  declare readonly namespaces: readonly string[]
+  readonly timeout: number
+
+  constructor(
+    lockName: string,
+    namespaces: readonly string[],
+    timeout: number,
+  ) {
+    super(
+      `Timed out after ${timeout}ms waiting for advisory lock "${lockName}"`,
+      lockName,
+      namespaces,
+    )
+    this.timeout = timeout
+  }
+}
+
+/**
+ * Thrown when PostgreSQL detects that a blocking acquisition waits for a lock in a cycle, with SQLSTATE `40P01`.
+ *
+ * PostgreSQL cancelled the acquisition to break the cycle, so the lock is not held; the original error is the `cause`.
+ */
+export class DeadlockError extends AdvisoryLockError {
+  override readonly name = "DeadlockError"
+  declare readonly lockName: string
+  declare readonly namespaces: readonly string[]
+
+  constructor(
+    lockName: string,
+    namespaces: readonly string[],
+    options?: ErrorOptions,
+  ) {
+    super(
+      `Deadlock detected while waiting for advisory lock "${lockName}"`,
+      lockName,
+      namespaces,
+      options,
+    )
+  }
+}
+
+/**
+ * Thrown by an acquisition nested in a lock context with the `reject` reentrancy policy, when the lock is already held on the context's connection.
+ */
+export class ReentrantLockError extends AdvisoryLockError {
+  override readonly name = "ReentrantLockError"
+  declare readonly lockName: string
+  declare readonly namespaces: readonly string[]
+
+  constructor(lockName: string, namespaces: readonly string[]) {
+    super(
+      `Advisory lock "${lockName}" is already held in the enclosing lock context`,
+      lockName,
+      namespaces,
+    )
+  }
+}
+
+/**
+ * Thrown by a lock handle whose lock was released, or that its connection no longer holds on `unlock()`.
+ */
+export class LockNotHeldError extends AdvisoryLockError {
+  override readonly name = "LockNotHeldError"
+  declare readonly lockName: string
+  declare readonly namespaces: readonly string[]
+
+  constructor(lockName: string, namespaces: readonly string[]) {
+    super(
+      "Advisory lock is no longer held by its connection",
+      lockName,
+      namespaces,
+    )
+  }
+}
+
+/**
+ * Reports the loss of a lock-owning connection, after which PostgreSQL no longer holds any of its locks.
+ *
+ * The closing or failed probe of the connection is the `cause`, or for the error of one lock, the loss of its connection.
+ */
+export class ConnectionLostError extends AdvisoryLockError {
+  override readonly name = "ConnectionLostError"
+
+  constructor({
+    cause,
+    lockName,
+    namespaces,
+  }: {
+    cause?: unknown
+    lockName?: string
+    namespaces?: readonly string[]
+  } = {}) {
+    super(
+      "Advisory lock connection was lost",
+      lockName,
+      namespaces,
+      cause === undefined ? undefined : { cause },
+    )
+  }
+}
+
+/**
+ * Thrown by acquisitions started once the manager is closing, and reported as the loss of the locks stopped by a forced close.
+ *
+ * The error of one lock stopped by a forced close has the error shared by all of them as its `cause`.
+ */
+export class ManagerClosedError extends AdvisoryLockError {
+  override readonly name = "ManagerClosedError"
+  /** Whether a forced close stopped the locks of the acquisition while it was active. */
+  readonly forced: boolean
+
+  constructor({
+    cause,
+    forced = false,
+    lockName,
+    namespaces,
+  }: {
+    cause?: unknown
+    forced?: boolean
+    lockName?: string
+    namespaces?: readonly string[]
+  } = {}) {
+    super(
+      forced
+        ? "Advisory lock manager was closed forcefully"
+        : "Advisory lock manager is closing or closed",
+      lockName,
+      namespaces,
+      cause === undefined ? undefined : { cause },
+    )
+    this.forced = forced
+  }
+}
+
+/**
+ * Thrown by `close()` when called from an active lock context, which would wait for itself.
+ */
+export class CloseFromLockContextError extends AdvisoryLockError {
+  override readonly name = "CloseFromLockContextError"
+
+  constructor() {
+    super("Cannot close advisory lock manager from an active lock context")
+  }
+}
+
+/**
+ * Thrown when a top-level acquisition waits longer than `queueTimeout` for a connection under `maxConcurrentAcquisitions`.
+ *
+ * The acquisition never reserved a connection, so no lock is held.
+ */
+export class QueueTimeoutError extends AdvisoryLockError {
+  override readonly name = "QueueTimeoutError"
+  readonly timeout: number
+
+  constructor(
+    timeout: number,
+    lockName?: string,
+    namespaces?: readonly string[],
+  ) {
+    super(
+      `Timed out after ${timeout}ms waiting for a free advisory lock connection`,
+      lockName,
+      namespaces,
+    )
+    this.timeout = timeout
+  }
+}
+
+/**
+ * Thrown by `close()` when locks are still active once its timeout elapses.
+ *
+ * The manager keeps closing; call `close()` again, or pass `force`, to stop the remaining locks.
+ */
+export class CloseTimeoutError extends AdvisoryLockError {
+  override readonly name = "CloseTimeoutError"
+  /** The acquisitions still waiting or holding their locks. */
+  readonly activeLocks: readonly AdvisoryLockEvent[]
+  readonly timeout: number
+
+  constructor(activeLocks: readonly AdvisoryLockEvent[], timeout: number) {
+    super(
+      `Advisory lock manager did not close within ${timeout}ms; active locks: ${activeLocks
+        .map((lock) => [...lock.namespaces, lock.name].join("/"))
+        .join(", ")}`,
+    )
+    this.activeLocks = activeLocks
+    this.timeout = timeout
+  }
+}
+
+/**
+ * Identifies the lock of an acquisition in the errors it reports.
+ */
+export type LockReference = {
+  lockName?: string
+  namespaces?: readonly string[]
+}
+
+/**
+ * Attributes the loss of a connection, or a forced close, shared by every lock on the connection to one of them.
+ *
+ * The shared error becomes the `cause`; other errors, and errors already naming a lock, are returned unchanged.
+ */
+export function lockLossError(
+  error: Error,
+  { lockName, namespaces }: LockReference,
+): Error {
+  if (
+    lockName === undefined ||
+    !(error instanceof AdvisoryLockError) ||
+    error.lockName !== undefined
+  ) {
+    return error
+  }
+  if (error instanceof ConnectionLostError) {
+    return new ConnectionLostError({ cause: error, lockName, namespaces })
+  }
+  if (error instanceof ManagerClosedError) {
+    return new ManagerClosedError({
+      cause: error,
+      forced: error.forced,
+      lockName,
+      namespaces,
+    })
+  }
+  return error
+}
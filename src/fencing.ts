@@ -0,0 +1,49 @@
+import type { ReservedSql } from "postgres"
+
+import type { LockKey } from "./key"
+import { ManagedTable } from "./table"
+
+/**
+ * Issues monotonic fencing tokens from per-lock counters in a library-managed table.
+ *
+ * The table is created on first use, and each token is issued while the advisory lock on its key is held.
+ */
+export class FencingTokenStore {
+  private readonly table: ManagedTable
+
+  constructor(table: string) {
+    this.table = new ManagedTable(
+      table,
+      (client) => client`
+        CREATE TABLE IF NOT EXISTS ${client(table)} (
+          key bigint NOT NULL,
+          objsubid smallint NOT NULL,
+          token bigint NOT NULL,
+          PRIMARY KEY (key, objsubid)
+        )
+      `,
+    )
+  }
+
+  /**
+   * Increments and returns the counter of the lock on `key`, which the caller must hold exclusively.
+   *
+   * @param objsubid - Tells a raw `bigint` key from an `(int4, int4)` pair packed into the same value, like `pg_locks` does.
+   */
+  async issue(
+    client: ReservedSql,
+    key: LockKey,
+    objsubid: number,
+  ): Promise<bigint> {
+    await this.table.ensure(client)
+
+    // Read the token as text by position: postgres.js parses int8 as a string and column transforms rename keys.
+    const [row] = await client`
+      INSERT INTO ${client(this.table.name)} AS counter (key, objsubid, token)
+      VALUES (${key}, ${objsubid}, 1)
+      ON CONFLICT (key, objsubid) DO UPDATE SET token = counter.token + 1
+      RETURNING token::text
+    `.values()
+    return BigInt(String(row?.[0]))
+  }
+}
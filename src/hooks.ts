@@ -0,0 +1,189 @@
+import type { Span, SpanStatusCode, Tracer } from "@opentelemetry/api"
+
+import { LockTimeoutError } from "./errors"
+import type { LockMetrics } from "./metrics"
+import type { LockMode } from "./mutex"
+
+/**
+ * Identifies one acquisition of a lock reported to lifecycle hooks.
+ */
+export interface AdvisoryLockEvent {
+  /** 1 for a top-level acquisition, plus one for each enclosing lock callback sharing its connection. */
+  readonly depth: number
+  readonly mode: LockMode
+  /** The lock name, or the comma-separated names of a multi-lock acquisition. */
+  readonly name: string
+  readonly namespaces: readonly string[]
+}
+
+export interface AdvisoryLockWaitEvent extends AdvisoryLockEvent {
+  /** Milliseconds from the start of the acquisition until it was granted or gave up. */
+  readonly waitDuration: number
+}
+
+export interface AdvisoryLockHoldEvent extends AdvisoryLockWaitEvent {
+  /** Milliseconds from the grant until the release completed or failed. */
+  readonly holdDuration: number
+}
+
+/**
+ * Callbacks observing the lock lifecycle of every keyspace and mutex of a manager.
+ *
+ * Hooks run synchronously and must not block; an error thrown by a hook is reported as uncaught without affecting the lock.
+ */
+export interface AdvisoryLockHooks {
+  acquireFailed?: (event: AdvisoryLockWaitEvent & { error: unknown }) => void
+  acquireStart?: (event: AdvisoryLockEvent) => void
+  acquired?: (event: AdvisoryLockWaitEvent) => void
+  /** Called once the manager has closed. */
+  close?: () => void
+  /** Called when a non-blocking attempt finds the lock unavailable. */
+  contended?: (event: AdvisoryLockWaitEvent) => void
+  released?: (event: AdvisoryLockHoldEvent) => void
+  releaseFailed?: (event: AdvisoryLockHoldEvent & { error: unknown }) => void
+}
+
+/** Calls a hook, reporting its error like an event listener does instead of throwing it. */
+export function callHook<T extends unknown[]>(
+  hook: ((...args: T) => void) | undefined,
+  ...args: T
+) {
+  try {
+    hook?.(...args)
+  } catch (error) {
+    queueMicrotask(() => {
+      throw error
+    })
+  }
+}
+
+/** The manager's lock observers. */
+export interface LockInstrumentation {
+  /** The acquisitions between their start and their release or failure. */
+  readonly activeLocks: Set<AdvisoryLockEvent>
+  readonly hooks: AdvisoryLockHooks
+  readonly metrics: LockMetrics
+  readonly tracer: Tracer | undefined
+}
+
+/** The operations traced as a span each. */
+export type LockOperation =
+  | "lock"
+  | "tryLock"
+  | "tryWithLock"
+  | "tryWithLocks"
+  | "withLock"
+  | "withLocks"
+
+/** The `lock.outcome` span attribute. */
+type LockOutcome = "acquired" | "contended" | "failed" | "timeout"
+
+// The type-only import of @opentelemetry/api keeps it an optional peer dependency.
+const spanStatusError = 2 as SpanStatusCode.ERROR
+
+/**
+ * Reports the lifecycle of one acquisition to the manager's hooks, metrics, and tracer, measuring its wait and hold durations.
+ *
+ * The span covers both phases; its `acquired` event marks the end of the wait.
+ */
+export class LockTracker {
+  private acquiredAt = 0
+  private span: Span | undefined
+  private startedAt = 0
+
+  constructor(
+    private readonly instrumentation: LockInstrumentation,
+    private readonly operation: LockOperation,
+    private readonly event: AdvisoryLockEvent,
+  ) {}
+
+  start() {
+    this.startedAt = Date.now()
+    this.span = this.instrumentation.tracer?.startSpan(
+      `advisory lock ${this.operation}`,
+      {
+        attributes: {
+          "lock.mode": this.event.mode,
+          "lock.name": this.event.name,
+          "lock.namespaces": [...this.event.namespaces],
+          "lock.nested": this.event.depth > 1,
+          "lock.operation": this.operation,
+        },
+      },
+    )
+    this.instrumentation.activeLocks.add(this.event)
+    this.instrumentation.metrics.started()
+    callHook(this.instrumentation.hooks.acquireStart, this.event)
+  }
+
+  acquired() {
+    this.acquiredAt = Date.now()
+    this.span?.setAttribute("lock.outcome", "acquired" satisfies LockOutcome)
+    this.span?.addEvent("acquired")
+    const event = this.waitEvent(this.acquiredAt)
+    this.instrumentation.metrics.acquired(this.event, event.waitDuration)
+    callHook(this.instrumentation.hooks.acquired, event)
+  }
+
+  failed(error: unknown) {
+    this.endWithError(
+      error instanceof LockTimeoutError ? "timeout" : "failed",
+      error,
+    )
+    this.instrumentation.activeLocks.delete(this.event)
+    const event = this.waitEvent(Date.now())
+    this.instrumentation.metrics.failed(this.event, event.waitDuration)
+    callHook(this.instrumentation.hooks.acquireFailed, { ...event, error })
+  }
+
+  contended() {
+    this.span?.setAttribute("lock.outcome", "contended" satisfies LockOutcome)
+    this.span?.end()
+    this.instrumentation.activeLocks.delete(this.event)
+    const event = this.waitEvent(Date.now())
+    this.instrumentation.metrics.contended(this.event, event.waitDuration)
+    callHook(this.instrumentation.hooks.contended, event)
+  }
+
+  /** Runs the release of an acquired lock, reporting its outcome. */
+  async release(release: () => Promise<void>): Promise<void> {
+    try {
+      await release()
+    } catch (error) {
+      this.instrumentation.activeLocks.delete(this.event)
+      this.endWithError("acquired", error)
+      const event = this.holdEvent()
+      this.instrumentation.metrics.released(this.event, event.holdDuration)
+      callHook(this.instrumentation.hooks.releaseFailed, { ...event, error })
+      throw error
+    }
+    this.instrumentation.activeLocks.delete(this.event)
+    this.span?.end()
+    const event = this.holdEvent()
+    this.instrumentation.metrics.released(this.event, event.holdDuration)
+    callHook(this.instrumentation.hooks.released, event)
+  }
+
+  private endWithError(outcome: LockOutcome, error: unknown) {
+    const { span } = this
+    if (!span) return
+    span.setAttribute("lock.outcome", outcome)
+    if (error instanceof Error) span.recordException(error)
+    span.setStatus({
+      code: spanStatusError,
+      message: error instanceof Error ? error.message : String(error),
+    })
+    span.end()
+  }
+
+  private waitEvent(until: number): AdvisoryLockWaitEvent {
+    return { ...this.event, waitDuration: until - this.startedAt }
+  }
+
+  private holdEvent(): AdvisoryLockHoldEvent {
+    return {
+      ...this.waitEvent(this.acquiredAt),
+      holdDuration: Date.now() - this.acquiredAt,
+    }
+  }
+}
@@ -1,6 +1,64 @@
 export {
+  AdvisoryLockError,
+  CloseFromLockContextError,
+  CloseTimeoutError,
+  ConnectionLostError,
+  DeadlockError,
+  LockNotHeldError,
+  LockTimeoutError,
+  ManagerClosedError,
+  QueueTimeoutError,
+  ReentrantLockError,
+} from "./errors"
+export type {
+  AdvisoryLockEvent,
+  AdvisoryLockHoldEvent,
+  AdvisoryLockHooks,
+  AdvisoryLockWaitEvent,
+} from "./hooks"
+export type { AdvisoryLockHolder, AdvisoryLockInspection } from "./inspect"
+export type { AdvisoryLockKey } from "./key"
+export type {
+  AdvisoryLeaderElection,
+  LeaderDemotion,
+  LeaderElectionOptions,
+} from "./leader-election"
+export {
+  type AdvisoryLockCloseOptions,
+  type AdvisoryLockCloseResult,
   type AdvisoryLockKeyspace,
+  type AdvisoryLockKeyspaceOptions,
   type AdvisoryLockManager,
+  type AdvisoryLockManagerOptions,
   createAdvisoryLockManager,
 } from "./lock"
-export type { AdvisoryMutex, TryWithLockResult } from "./mutex"
+export {
+  type AdvisoryLockGroupMetrics,
+  type AdvisoryLockHistogram,
+  type AdvisoryLockMetrics,
+  type AdvisoryLockMetricsOptions,
+  formatPrometheusMetrics,
+  type PrometheusFormatOptions,
+} from "./metrics"
+export type {
+  AdvisoryMutex,
+  LockContext,
+  LockHandle,
+  LockMode,
+  ReentrancyPolicy,
+  RetryingTryLockOptions,
+  TryLockOptions,
+  TryWithLockResult,
+  UnlockFunction,
+  WithLockOptions,
+} from "./mutex"
+export type { RetryOptions } from "./retry"
+export type { AdvisoryRwMutex } from "./rw-mutex"
+export type {
+  AdvisoryScheduledJob,
+  ScheduledRunContext,
+  ScheduleOptions,
+  ScheduleTiming,
+} from "./scheduler"
+export type { AdvisorySemaphore } from "./semaphore"
+export type { AdvisoryLockSqlHelpersOptions } from "./sql-helpers"
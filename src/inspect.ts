@@ -0,0 +1,107 @@
+import type { AdvisoryLockKey } from "./key"
+import { lockKeyValue, lockObjectSubId } from "./key"
+import type { NestingPool } from "./pool"
+
+/**
+ * A session holding an advisory lock, as reported by `pg_stat_activity`.
+ */
+export interface AdvisoryLockHolder {
+  readonly applicationName: string
+  /** The client's IP address, or `null` for Unix-socket connections and without permission to see it. */
+  readonly clientAddress: string | null
+  readonly mode: "exclusive" | "shared"
+  /** The backend process id, usable with `pg_terminate_backend()`. */
+  readonly pid: number
+  /**
+   * When the holding session started, or `null` without permission to see it.
+   *
+   * PostgreSQL does not record when a lock was granted.
+   */
+  readonly sessionStartedAt: Date | null
+}
+
+/**
+ * A snapshot of the sessions holding and awaiting one advisory lock.
+ */
+export interface AdvisoryLockInspection {
+  readonly held: boolean
+  /** Every session holding the lock; shared locks may have several. */
+  readonly holders: readonly AdvisoryLockHolder[]
+  /**
+   * The derived advisory key, for looking the lock up in `pg_locks` directly.
+   *
+   * An `(int4, int4)` pair key is packed into the high and low 32 bits.
+   */
+  readonly key: bigint
+  /** The number of sessions waiting to acquire the lock. */
+  readonly waiting: number
+}
+
+/**
+ * Reports the holders and waiters of the lock on `key` in the current database.
+ *
+ * `pg_locks` splits a 64-bit advisory key into its high and low 32 bits as `classid` and `objid`, and tells the pair overloads apart by `objsubid` 2.
+ */
+export async function inspectAdvisoryLock(
+  pool: NestingPool,
+  key: AdvisoryLockKey,
+  namespaces: readonly string[],
+): Promise<AdvisoryLockInspection> {
+  return await pool.withClient(async (client) => {
+    // Read text columns by position: postgres.js transforms may rename columns or parse values.
+    const rows = await client`
+      WITH target AS (
+        SELECT ${lockKeyValue(client, key, namespaces)} AS key
+      )
+      SELECT
+        target.key::text,
+        locks.granted::text,
+        locks.mode,
+        locks.pid::text,
+        activity.application_name,
+        host(activity.client_addr),
+        extract(epoch FROM activity.backend_start)::text
+      FROM target
+      LEFT JOIN pg_locks AS locks
+        ON locks.locktype = 'advisory'
+        AND locks.database = (
+          SELECT oid FROM pg_database WHERE datname = current_database()
+        )
+        AND locks.classid = ((target.key >> 32) & 4294967295)::oid
+        AND locks.objid = (target.key & 4294967295)::oid
+        AND locks.objsubid = ${lockObjectSubId(key)}
+      LEFT JOIN pg_stat_activity AS activity ON activity.pid = locks.pid
+      ORDER BY locks.pid
+    `.values()
+
+    const lockKey = BigInt(String(rows[0]?.[0]))
+    const holders: AdvisoryLockHolder[] = []
+    let waiting = 0
+
+    for (const [
+      ,
+      granted,
+      mode,
+      pid,
+      applicationName,
+      clientAddress,
+      sessionStart,
+    ] of rows) {
+      if (pid === null) continue
+      if (granted !== "true") {
+        waiting += 1
+        continue
+      }
+      holders.push({
+        applicationName: String(applicationName ?? ""),
+        clientAddress: clientAddress === null ? null : String(clientAddress),
+        mode: mode === "ShareLock" ? "shared" : "exclusive",
+        pid: Number(pid),
+        sessionStartedAt:
+          sessionStart === null ? null : new Date(Number(sessionStart) * 1000),
+      })
+    }
+
+    return { held: holders.length > 0, holders, key: lockKey, waiting }
+  })
+}
@@ -0,0 +1,102 @@
+import type { ReservedSql, TransactionSql } from "postgres"
+
+/**
+ * Builds the SQL fragment that derives a signed 64-bit advisory key from a name and its namespace chain.
+ *
+ * Each namespace is folded into the seed in order: `H(name, H(nsN, ... H(ns1, 0)))`.
+ */
+export function deriveLockKey(
+  sql: ReservedSql | TransactionSql,
+  name: string,
+  namespaces: readonly string[],
+) {
+  const zero = sql`0`
+  const hash = (value: string, seed: typeof zero) =>
+    sql`hashtextextended(${value}::text COLLATE "C", ${seed})`
+
+  let seed = zero
+  for (const namespace of namespaces) {
+    seed = hash(namespace, seed)
+  }
+
+  return hash(name, seed)
+}
+
+export type LockKey = ReturnType<typeof deriveLockKey>
+
+/**
+ * Identifies an advisory lock: a name hashed within its namespace chain, or a raw key.
+ *
+ * Raw keys ignore namespaces and lock the same key as `pg_advisory_lock(bigint)` or `pg_advisory_lock(int, int)` in SQL.
+ */
+export type AdvisoryLockKey = string | bigint | readonly [number, number]
+
+const int32 = { max: 2 ** 31 - 1, min: -(2 ** 31) }
+const int64 = { max: 2n ** 63n - 1n, min: -(2n ** 63n) }
+
+/** Throws a `RangeError` for raw keys outside the ranges of their PostgreSQL types. */
+export function validateLockKey(key: AdvisoryLockKey) {
+  if (typeof key === "string") return
+  if (typeof key === "bigint") {
+    if (key < int64.min || key > int64.max) {
+      throw new RangeError("Advisory lock key must be a signed 64-bit integer")
+    }
+    return
+  }
+  if (
+    !key.every(
+      (part) =>
+        Number.isInteger(part) && part >= int32.min && part <= int32.max,
+    )
+  ) {
+    throw new RangeError(
+      "Advisory lock key pair must consist of signed 32-bit integers",
+    )
+  }
+}
+
+/** Describes `key` in events and errors: names as-is, and raw keys as their SQL arguments. */
+export function formatLockKey(key: AdvisoryLockKey): string {
+  if (typeof key === "string") return key
+  if (typeof key === "bigint") return String(key)
+  return `(${key[0]}, ${key[1]})`
+}
+
+/** Builds the arguments of the advisory lock functions for `key`: one bigint, or two integers for a pair. */
+export function lockArguments(
+  sql: ReservedSql | TransactionSql,
+  key: AdvisoryLockKey,
+  namespaces: readonly string[],
+) {
+  if (typeof key === "object") return sql`${key[0]}::int4, ${key[1]}::int4`
+  return lockKeyValue(sql, key, namespaces)
+}
+
+/**
+ * Builds a single bigint identifying `key` for library tables and `pg_locks`.
+ *
+ * A pair is packed into the high and low 32 bits, as `pg_locks` splits keys into `classid` and `objid`.
+ */
+export function lockKeyValue(
+  sql: ReservedSql | TransactionSql,
+  key: AdvisoryLockKey,
+  namespaces: readonly string[],
+): LockKey {
+  if (typeof key === "string") return deriveLockKey(sql, key, namespaces)
+  if (typeof key === "bigint") return sql`${String(key)}::int8`
+  return sql`(${key[0]}::int8 << 32) | (${key[1]}::int8 & 4294967295)`
+}
+
+/** The `pg_locks.objsubid` of `key`: 2 for the `(int4, int4)` overloads, and 1 for `bigint` keys. */
+export function lockObjectSubId(key: AdvisoryLockKey) {
+  return typeof key === "object" ? 2 : 1
+}
+
+/** Identifies the lock of `key` within one session, for tracking the lock contexts holding it in-process. */
+export function lockIdentity(
+  key: AdvisoryLockKey,
+  namespaces: readonly string[],
+): string {
+  if (typeof key === "string") return JSON.stringify([...namespaces, key])
+  return formatLockKey(key)
+}
@@ -0,0 +1,163 @@
+import { callHook } from "./hooks"
+import type { AdvisoryMutex, LockContext, UnlockFunction } from "./mutex"
+import type { NestingPool } from "./pool"
+
+/**
+ * Describes the end of a leadership term.
+ */
+export interface LeaderDemotion {
+  /** The connection loss error, when the term was `lost`. */
+  readonly error?: Error
+  /**
+   * Whether the term ended by `resign()`, by closing the manager, or by losing the lock-owning connection.
+   *
+   * Only a lost term is followed by a new campaign.
+   */
+  readonly reason: "closed" | "lost" | "resigned"
+}
+
+/**
+ * Options for a leader election.
+ */
+export interface LeaderElectionOptions {
+  /** Milliseconds between campaigns while another instance leads or the database is unreachable; defaults to 5 seconds. */
+  campaignInterval?: number
+  /** Called when leadership ends, after `context.signal` aborts and before the lock is released. */
+  onDemoted?: (demotion: LeaderDemotion) => void
+  /**
+   * Called when this instance becomes the leader.
+   *
+   * `context.signal` aborts when the term ends for any reason.
+   */
+  onElected?: (context: LockContext) => void
+  /** Called with the error of a failed campaign or release; failed campaigns are retried. */
+  onError?: (error: unknown) => void
+}
+
+/**
+ * A campaign for the exclusive lock on one name, holding it as leader until resigned, closed, or lost.
+ */
+export interface AdvisoryLeaderElection {
+  readonly isLeader: boolean
+  /**
+   * Ends the current term, if any, and stops campaigning.
+   *
+   * Resolves once the lock and its connection are released.
+   */
+  resign(): Promise<void>
+}
+
+type Term = {
+  controller: AbortController
+  unlock: UnlockFunction
+}
+
+/**
+ * Campaigns with `tryLock()`, which reserves a connection per attempt and keeps it for the term.
+ *
+ * Callbacks are reported like lifecycle hooks, so an error thrown by one does not affect the election.
+ */
+class PostgresLeaderElection implements AdvisoryLeaderElection {
+  private campaign: Promise<void> | undefined
+  private readonly campaignInterval: number
+  private readonly removeClosingListener: () => void
+  private stopped = false
+  private term: Term | undefined
+  private timer: ReturnType<typeof setTimeout> | undefined
+
+  constructor(
+    private readonly pool: NestingPool,
+    private readonly mutex: AdvisoryMutex,
+    private readonly options: LeaderElectionOptions,
+  ) {
+    this.campaignInterval = options.campaignInterval ?? 5000
+    this.removeClosingListener = pool.onClosing(() => {
+      this.stop("closed").catch((error: unknown) => {
+        callHook(this.options.onError, error)
+      })
+    })
+    this.schedule(0)
+  }
+
+  get isLeader() {
+    return this.term !== undefined
+  }
+
+  resign(): Promise<void> {
+    return this.stop("resigned")
+  }
+
+  private schedule(delay: number) {
+    if (this.stopped) return
+    this.timer = setTimeout(() => {
+      this.timer = undefined
+      this.campaign = this.runCampaign()
+    }, delay)
+  }
+
+  private async runCampaign() {
+    let unlock: UnlockFunction | undefined
+    try {
+      // Campaign outside any enclosing lock callback, so the term reserves its own connection.
+      unlock = await this.pool.connectionStorage.exit(() =>
+        this.mutex.tryLock(),
+      )
+    } catch (error) {
+      if (!this.stopped) callHook(this.options.onError, error)
+      this.schedule(this.campaignInterval)
+      return
+    }
+
+    if (!unlock) {
+      this.schedule(this.campaignInterval)
+      return
+    }
+    if (this.stopped) {
+      await unlock().catch((error: unknown) => {
+        callHook(this.options.onError, error)
+      })
+      return
+    }
+
+    const term: Term = { controller: new AbortController(), unlock }
+    this.term = term
+    unlock.onLost((error) => {
+      if (this.term !== term) return
+      this.demote({ error, reason: "lost" })
+        // The release of a lost lock fails with the loss already reported.
+        .catch(() => {})
+        .finally(() => this.schedule(0))
+    })
+    callHook(this.options.onElected, {
+      fencingToken: unlock.fencingToken,
+      signal: term.controller.signal,
+    })
+  }
+
+  private async demote(demotion: LeaderDemotion) {
+    const { term } = this
+    if (!term) return
+    this.term = undefined
+    term.controller.abort(demotion.error)
+    callHook(this.options.onDemoted, demotion)
+    await term.unlock()
+  }
+
+  private async stop(reason: "closed" | "resigned") {
+    if (!this.stopped) {
+      this.stopped = true
+      clearTimeout(this.timer)
+      this.removeClosingListener()
+    }
+    await this.campaign
+    await this.demote({ reason })
+  }
+}
+
+export function createAdvisoryLeaderElection(
+  pool: NestingPool,
+  mutex: AdvisoryMutex,
+  options: LeaderElectionOptions = {},
+): AdvisoryLeaderElection {
+  return new PostgresLeaderElection(pool, mutex, options)
+}
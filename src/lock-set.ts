@@ -0,0 +1,346 @@
+import type { ReservedSql } from "postgres"
+
+import { awaitCancellable, pollCancellable, throwIfAborted } from "./cancel"
+import type { LockReference } from "./errors"
+import { DeadlockError, LockTimeoutError, ReentrantLockError } from "./errors"
+import type { LockOperation } from "./hooks"
+import { LockTracker } from "./hooks"
+import { deriveLockKey, lockIdentity } from "./key"
+import type { ConnectionMonitor } from "./monitor"
+import type {
+  LockContext,
+  TryLockOptions,
+  TryWithLockResult,
+  WithLockOptions,
+} from "./mutex"
+import { createLockContext } from "./mutex"
+import type { NestingPool } from "./pool"
+
+/**
+ * Exclusive locks on several names of one keyspace, held together on one connection.
+ *
+ * Locks are acquired one by one in ascending order of their derived keys,
+ * so lock sets sharing some names cannot deadlock each other.
+ * The order is computed in PostgreSQL, and each step addresses its key by position.
+ */
+class PostgresAdvisoryLockSet {
+  private readonly names: readonly string[]
+  private readonly namespaces: readonly string[]
+  private readonly pool: NestingPool
+  private readonly defaults: WithLockOptions
+  /** Attributes the loss of the connection to this set. */
+  private readonly reference: LockReference
+
+  constructor(
+    pool: NestingPool,
+    names: readonly string[],
+    namespaces: readonly string[],
+    defaults: WithLockOptions,
+  ) {
+    this.names = [...new Set(names)]
+    this.namespaces = namespaces
+    this.pool = pool
+    this.defaults = defaults
+    this.reference = { lockName: this.names.join(", "), namespaces }
+  }
+
+  private track(operation: LockOperation) {
+    return new LockTracker(this.pool, operation, {
+      depth: this.pool.nestingDepth(),
+      mode: "exclusive",
+      name: this.names.join(", "),
+      namespaces: this.namespaces,
+    })
+  }
+
+  /**
+   * Applies the reentrancy policy to every name for the lock context just opened for this set.
+   *
+   * Without `wait`, resolves to `undefined` if a name must wait for a sibling callback.
+   */
+  private enter(
+    { reentrancy }: TryLockOptions,
+    wait:
+      | { signal?: AbortSignal; startedAt?: number; timeout?: number }
+      | undefined,
+  ) {
+    const lockName = this.names.join(", ")
+    return this.pool.enterLocks(
+      this.names.map((name) => lockIdentity(name, this.namespaces)),
+      reentrancy ?? this.defaults.reentrancy ?? "session",
+      {
+        reentrantError: () => new ReentrantLockError(lockName, this.namespaces),
+        signal: wait?.signal,
+        startedAt: wait?.startedAt,
+        timeout: wait?.timeout,
+        timeoutError: (timeout) =>
+          new LockTimeoutError(lockName, this.namespaces, timeout),
+        wait: wait !== undefined,
+      },
+    )
+  }
+
+  /** Selects `count` derived keys in canonical order, skipping the first `offset`. */
+  private orderedKeys(client: ReservedSql, offset: number, count: number) {
+    const keys = this.names
+      .map((name) => client`(${deriveLockKey(client, name, this.namespaces)})`)
+      .reduce((list, key) => client`${list}, ${key}`)
+
+    return client`
+      SELECT key FROM (VALUES ${keys}) AS keys (key)
+      ORDER BY key
+      OFFSET ${offset} LIMIT ${count}
+    `
+  }
+
+  private async lock(
+    client: ReservedSql,
+    monitor: ConnectionMonitor,
+    { signal, timeout }: WithLockOptions,
+    startedAt: number,
+  ): Promise<void> {
+    throwIfAborted(signal)
+    const deadline =
+      timeout === undefined || timeout === Number.POSITIVE_INFINITY
+        ? undefined
+        : startedAt + timeout
+
+    const remaining = () =>
+      deadline === undefined ? undefined : deadline - Date.now()
+    const timeoutError = () =>
+      new LockTimeoutError(this.names.join(", "), this.namespaces, timeout ?? 0)
+
+    let acquired = 0
+    try {
+      while (acquired < this.names.length) {
+        if (this.pool.multiplexed) {
+          await pollCancellable(
+            () => this.attemptNext(client, acquired),
+            {
+              interval: this.pool.pollInterval,
+              lock: this.reference,
+              monitor,
+              signal,
+              timeout: remaining(),
+            },
+            timeoutError,
+          )
+          acquired += 1
+          continue
+        }
+
+        await awaitCancellable(
+          client`
+            SELECT
+            FROM (
+              SELECT pg_advisory_lock(key)
+              FROM (${this.orderedKeys(client, acquired, 1)}) AS next
+            ) AS control
+            OFFSET 1
+          `,
+          { lock: this.reference, monitor, signal, timeout: remaining() },
+          timeoutError,
+          (cause) =>
+            new DeadlockError(this.names.join(", "), this.namespaces, {
+              cause,
+            }),
+          async () => {
+            // Released with the others below.
+            acquired += 1
+          },
+        )
+        acquired += 1
+      }
+    } catch (error) {
+      if (!monitor.lost) await this.unlock(client, acquired)
+      throw error
+    }
+  }
+
+  private async tryToLock(
+    client: ReservedSql,
+    signal: AbortSignal | undefined,
+  ): Promise<boolean> {
+    throwIfAborted(signal)
+
+    let acquired = 0
+    try {
+      while (acquired < this.names.length) {
+        if (!(await this.attemptNext(client, acquired))) break
+        acquired += 1
+      }
+      throwIfAborted(signal)
+    } catch (error) {
+      await this.unlock(client, acquired)
+      throw error
+    }
+
+    if (acquired < this.names.length) {
+      await this.unlock(client, acquired)
+      return false
+    }
+    return true
+  }
+
+  /** Attempts to acquire the lock following the first `offset` in canonical order without blocking. */
+  private async attemptNext(
+    client: ReservedSql,
+    offset: number,
+  ): Promise<boolean> {
+    const result = await client`
+      SELECT
+      FROM (
+        SELECT pg_try_advisory_lock(key) AS succeeded
+        FROM (${this.orderedKeys(client, offset, 1)}) AS next
+      ) AS control
+      -- Keep success rowless: postgres.js row transforms can throw after acquisition.
+      WHERE NOT succeeded
+    `
+    return result.count === 0
+  }
+
+  /** Releases the first `count` locks in canonical order. */
+  private async unlock(client: ReservedSql, count: number): Promise<void> {
+    if (count === 0) return
+    await client`
+      SELECT
+      FROM (
+        SELECT pg_advisory_unlock(key) AS succeeded
+        FROM (${this.orderedKeys(client, 0, count)}) AS held
+      ) AS control
+      -- Keep success rowless: postgres.js row transforms can throw after release.
+      WHERE NOT succeeded
+    `
+  }
+
+  /**
+   * Acquires every lock and executes the provided function.
+   *
+   * A timeout applies to the acquisition of the whole set.
+   *
+   * @throws {LockTimeoutError} if the locks are not acquired within the configured timeout.
+   */
+  async withLocks<T>(
+    fn: (context: LockContext) => PromiseLike<T>,
+    options: WithLockOptions = {},
+  ): Promise<T> {
+    throwIfAborted(options.signal)
+    const lockName = this.names.join(", ")
+    const timeout = options.timeout ?? this.defaults.timeout
+    const startedAt = Date.now()
+    return await this.pool.withClient(
+      async (client, monitor) => {
+        const tracker = this.track("withLocks")
+        tracker.start()
+        let leave: (() => void) | undefined
+        try {
+          leave = await this.enter(options, {
+            signal: options.signal,
+            startedAt,
+            timeout,
+          })
+          await this.lock(
+            client,
+            monitor,
+            { signal: options.signal, timeout },
+            startedAt,
+          )
+        } catch (error) {
+          leave?.()
+          tracker.failed(error)
+          throw error
+        }
+        tracker.acquired()
+
+        try {
+          return await fn(createLockContext(monitor))
+        } finally {
+          try {
+            await tracker.release(async () => {
+              monitor.throwIfLost(this.reference)
+              await this.unlock(client, this.names.length)
+            })
+          } finally {
+            leave?.()
+          }
+        }
+      },
+      {
+        lockName,
+        namespaces: this.namespaces,
+        signal: options.signal,
+        startedAt,
+        timeout,
+        timeoutError: (timeout) =>
+          new LockTimeoutError(lockName, this.namespaces, timeout),
+      },
+    )
+  }
+
+  /**
+   * Attempts to acquire every lock without blocking and execute the provided function if successful.
+   *
+   * Either all locks are acquired, or none remain held.
+   */
+  async tryWithLocks<T>(
+    fn: (context: LockContext) => PromiseLike<T>,
+    options: TryLockOptions = {},
+  ): Promise<TryWithLockResult<T>> {
+    throwIfAborted(options.signal)
+    return await this.pool.withClient(
+      async (client, monitor) => {
+        const tracker = this.track("tryWithLocks")
+        tracker.start()
+        let acquired: boolean
+        let leave: (() => void) | undefined
+        try {
+          leave = await this.enter(options, undefined)
+          acquired =
+            leave !== undefined &&
+            (await this.tryToLock(client, options.signal))
+        } catch (error) {
+          leave?.()
+          tracker.failed(error)
+          throw error
+        }
+
+        try {
+          if (acquired) {
+            tracker.acquired()
+            try {
+              return {
+                acquired: true,
+                result: await fn(createLockContext(monitor)),
+              }
+            } finally {
+              await tracker.release(async () => {
+                monitor.throwIfLost(this.reference)
+                await this.unlock(client, this.names.length)
+              })
+            }
+          } else {
+            tracker.contended()
+            return { acquired: false }
+          }
+        } finally {
+          leave?.()
+        }
+      },
+      {
+        lockName: this.names.join(", "),
+        namespaces: this.namespaces,
+        signal: options.signal,
+      },
+    )
+  }
+}
+
+/** Creates a set of exclusive locks on several names of one namespace chain. */
+export function createAdvisoryLockSet(
+  pool: NestingPool,
+  names: readonly string[],
+  namespaces: readonly string[] = [],
+  defaults: WithLockOptions = {},
+) {
+  return new PostgresAdvisoryLockSet(pool, names, namespaces, defaults)
+}
@@ -1,38 +1,272 @@
-import postgres from "postgres"
+import type { Tracer } from "@opentelemetry/api"
+import postgres, { type TransactionSql } from "postgres"
 
-import type { AdvisoryMutex, TryWithLockResult } from "./mutex"
+import { FencingTokenStore } from "./fencing"
+import type { AdvisoryLockEvent, AdvisoryLockHooks } from "./hooks"
+import type { AdvisoryLockInspection } from "./inspect"
+import { inspectAdvisoryLock } from "./inspect"
+import type { AdvisoryLockKey } from "./key"
+import type {
+  AdvisoryLeaderElection,
+  LeaderElectionOptions,
+} from "./leader-election"
+import { createAdvisoryLeaderElection } from "./leader-election"
+import { createAdvisoryLockSet } from "./lock-set"
+import type { AdvisoryLockMetrics, AdvisoryLockMetricsOptions } from "./metrics"
+import type {
+  AdvisoryMutex,
+  LockContext,
+  LockHandle,
+  ReentrancyPolicy,
+  RetryingTryLockOptions,
+  TryLockOptions,
+  TryWithLockResult,
+  WithLockOptions,
+} from "./mutex"
 import { createAdvisoryMutex } from "./mutex"
 import { NestingPool } from "./pool"
+import type { AdvisoryRwMutex } from "./rw-mutex"
+import { createAdvisoryRwMutex } from "./rw-mutex"
+import type {
+  AdvisoryScheduledJob,
+  ScheduledRunContext,
+  ScheduleOptions,
+} from "./scheduler"
+import { createAdvisoryScheduledJob, ScheduleRunStore } from "./scheduler"
+import type { AdvisorySemaphore } from "./semaphore"
+import { createAdvisorySemaphore } from "./semaphore"
+import type { AdvisoryLockSqlHelpersOptions } from "./sql-helpers"
+import { installSqlHelpers } from "./sql-helpers"
 
 type PostgresOptions = postgres.Options<Record<string, postgres.PostgresType>>
 
+/**
+ * Defaults for operations in a keyspace, inherited by its nested namespaces.
+ */
+export interface AdvisoryLockKeyspaceOptions {
+  /**
+   * Issues a fencing token on each `withLock()`, `tryWithLock()`, and `tryLock()` acquisition.
+   *
+   * Tokens of a name increase monotonically across all instances sharing the database.
+   */
+  fencing?: boolean
+  /**
+   * How nested `withLock()`, `tryWithLock()`, `withLocks()`, and `tryWithLocks()` calls treat a lock already held on their connection.
+   *
+   * Defaults to `session`, which shares the lock with every callback on the connection.
+   */
+  reentrancy?: ReentrancyPolicy
+  /** Default acquisition timeout in milliseconds for `withLock()` and `wrapWithLock()`. */
+  timeout?: number
+}
+
+/**
+ * Options for the root manager, including defaults for its keyspace.
+ */
+export interface AdvisoryLockManagerOptions
+  extends AdvisoryLockKeyspaceOptions {
+  /**
+   * Table holding the fencing token counters, created on first use.
+   *
+   * Defaults to `advisory_lock_fencing_tokens` in the connection's search path; may be schema-qualified.
+   */
+  fencingTable?: string
+  /**
+   * Milliseconds between the non-blocking attempts of a blocking acquisition on a holder session, and of `withPermit()` while every permit is taken.
+   *
+   * Defaults to 100.
+   */
+  holderPollInterval?: number
+  /**
+   * Holds every lock on one of up to this many long-lived sessions shared by all acquisitions, instead of reserving a connection per top-level acquisition.
+   *
+   * Blocking acquisitions then poll with non-blocking attempts, since a blocked query would stall the other locks of its session.
+   * By default, each top-level acquisition reserves a connection of its own.
+   */
+  holderSessions?: number
+  /** Callbacks observing the lock lifecycle of every keyspace and mutex of the manager. */
+  hooks?: AdvisoryLockHooks
+  /**
+   * Bounds the connections that top-level acquisitions reserve at once, queueing further acquisitions in memory in arrival order.
+   *
+   * Their `timeout` counts the time spent queued, and their `signal` cancels it.
+   * Has no effect with `holderSessions`, which already bound the reserved connections.
+   */
+  maxConcurrentAcquisitions?: number
+  /** Configures the histogram buckets and grouping of `metrics()`. */
+  metrics?: AdvisoryLockMetricsOptions
+  /**
+   * Milliseconds between liveness probes of each reserved connection.
+   *
+   * A failed probe, like a closed connection, aborts `LockContext.signal` and calls `onLost()` listeners.
+   * Defaults to 10 seconds; `0` disables probing.
+   */
+  probeInterval?: number
+  /**
+   * Milliseconds a top-level acquisition may wait in the queue of `maxConcurrentAcquisitions` before rejecting with `QueueTimeoutError`.
+   *
+   * Defaults to no limit.
+   */
+  queueTimeout?: number
+  /**
+   * Table recording the last run of scheduled jobs with `persistLastRun`, created on first use.
+   *
+   * Defaults to `advisory_lock_schedule_runs` in the connection's search path; may be schema-qualified.
+   */
+  scheduleTable?: string
+  /**
+   * An OpenTelemetry tracer, such as `trace.getTracer("pg-advisory-lock")`, to create a span per acquisition.
+   *
+   * Each span covers the wait and hold phases of `withLock()`, `tryWithLock()`, `tryLock()`, and their multi-lock variants.
+   */
+  tracer?: Tracer
+}
+
 /**
  * A configured mapping from logical lock names to PostgreSQL advisory keys.
  *
+ * Methods taking a `key` also accept a raw `bigint` or `(int4, int4)` pair, which bypasses name derivation and namespaces.
+ *
  * Namespaces share the root manager's connection lifecycle.
  */
 export interface AdvisoryLockKeyspace {
-  createMutex(name: string): AdvisoryMutex
-  /** Creates an isolated nested namespace within this keyspace. */
-  namespace(value: string): AdvisoryLockKeyspace
-  tryLock(name: string): Promise<(() => Promise<void>) | undefined>
+  /**
+   * Starts campaigning for leadership through the exclusive lock on `key`.
+   *
+   * Closing the manager ends the term and stops the campaign.
+   */
+  createLeaderElection(
+    key: AdvisoryLockKey,
+    options?: LeaderElectionOptions,
+  ): AdvisoryLeaderElection
+  createMutex(key: AdvisoryLockKey): AdvisoryMutex
+  /** Creates a reader/writer mutex whose write lock excludes `withLock()` on the same key. */
+  createRwMutex(key: AdvisoryLockKey): AdvisoryRwMutex
+  /** Creates a semaphore admitting up to `permits` concurrent holders of `name`. */
+  createSemaphore(name: string, permits: number): AdvisorySemaphore
+  /** Reports which sessions hold the lock on `key` and how many are waiting for it. */
+  inspect(key: AdvisoryLockKey): Promise<AdvisoryLockInspection>
+  /**
+   * Fires `fn` on every tick of `options` on every instance, running it only on the instance that wins `tryWithLock()` on `key`.
+   *
+   * Closing the manager stops the job.
+   */
+  schedule(
+    key: AdvisoryLockKey,
+    options: ScheduleOptions,
+    fn: (context: ScheduledRunContext) => PromiseLike<void>,
+  ): AdvisoryScheduledJob
+  /** Acquires the lock on `key` like `lock()`, for releasing it with `await using`. */
+  acquire(key: AdvisoryLockKey, options?: WithLockOptions): Promise<LockHandle>
+  /**
+   * Waits for the lock on `key` and returns a handle that keeps it until unlocked.
+   *
+   * Use it when acquisition and release happen in separate hooks.
+   */
+  lock(key: AdvisoryLockKey, options?: WithLockOptions): Promise<LockHandle>
+  /** Creates an isolated nested namespace within this keyspace, optionally overriding its defaults. */
+  namespace(
+    value: string,
+    options?: AdvisoryLockKeyspaceOptions,
+  ): AdvisoryLockKeyspace
+  tryLock(
+    key: AdvisoryLockKey,
+    options?: RetryingTryLockOptions,
+  ): Promise<LockHandle | undefined>
   tryWithLock<T>(
-    name: string,
-    fn: () => PromiseLike<T>,
+    key: AdvisoryLockKey,
+    fn: (context: LockContext) => PromiseLike<T>,
+    options?: RetryingTryLockOptions,
+  ): Promise<TryWithLockResult<T>>
+  /** Attempts a transaction-level lock on `key` inside a postgres.js transaction. */
+  tryXactLock(
+    tx: TransactionSql,
+    key: AdvisoryLockKey,
+    options?: TryLockOptions,
+  ): Promise<boolean>
+  /**
+   * Attempts to acquire exclusive locks on all `names` without blocking.
+   *
+   * Either every lock is acquired for the callback, or none remain held.
+   */
+  tryWithLocks<T>(
+    names: readonly string[],
+    fn: (context: LockContext) => PromiseLike<T>,
+    options?: TryLockOptions,
   ): Promise<TryWithLockResult<T>>
-  withLock<T>(name: string, fn: () => PromiseLike<T>): Promise<T>
+  withLock<T>(
+    key: AdvisoryLockKey,
+    fn: (context: LockContext) => PromiseLike<T>,
+    options?: WithLockOptions,
+  ): Promise<T>
+  /** Acquires exclusive locks on all `names` on one connection in a deadlock-free order. */
+  withLocks<T>(
+    names: readonly string[],
+    fn: (context: LockContext) => PromiseLike<T>,
+    options?: WithLockOptions,
+  ): Promise<T>
   wrapWithLock<TArgs extends readonly unknown[], TReturn>(
-    name: string,
+    key: AdvisoryLockKey,
     fn: (...args: TArgs) => PromiseLike<TReturn>,
+    options?: WithLockOptions,
   ): (...args: TArgs) => Promise<TReturn>
+  /** Acquires a transaction-level lock on `key` inside a postgres.js transaction. */
+  xactLock(
+    tx: TransactionSql,
+    key: AdvisoryLockKey,
+    options?: WithLockOptions,
+  ): Promise<void>
+}
+
+/**
+ * Options for closing the manager.
+ */
+export interface AdvisoryLockCloseOptions {
+  /**
+   * Stops the locks still active once `timeout` elapses instead of rejecting.
+   *
+   * Blocked acquisitions are cancelled, and `LockContext.signal` and `onLost()` listeners report the locks as lost.
+   * Their locks are released on their connections without waiting for the callbacks to return.
+   */
+  force?: boolean
+  /**
+   * Milliseconds to wait for active locks before rejecting with `CloseTimeoutError`, or stopping them with `force`.
+   *
+   * Waits indefinitely by default.
+   */
+  timeout?: number
+}
+
+/**
+ * The outcome of closing the manager.
+ */
+export interface AdvisoryLockCloseResult {
+  /** The acquisitions still active when the timeout elapsed, which `force` stopped. */
+  readonly activeLocks: readonly AdvisoryLockEvent[]
 }
 
 /**
  * The root advisory lock manager, including ownership of its connection lifecycle.
+ *
+ * Disposing it with `await using` calls `close()` without options.
  */
-export interface AdvisoryLockManager extends AdvisoryLockKeyspace {
+export interface AdvisoryLockManager
+  extends AdvisoryLockKeyspace,
+    AsyncDisposable {
   /** Stops new acquisitions, waits for active locks, and closes owned connections. */
-  close(): Promise<void>
+  close(options?: AdvisoryLockCloseOptions): Promise<AdvisoryLockCloseResult>
+  /**
+   * Creates the versioned SQL function `advisory_lock_key_v1(name, namespaces)` in `schema`, unless it exists.
+   *
+   * It derives the same key as the manager, so SQL can lock a name with `pg_advisory_lock(advisory_lock_key_v1('job', ARRAY['tenant-a']))`.
+   */
+  installSqlHelpers(options?: AdvisoryLockSqlHelpersOptions): Promise<void>
+  /**
+   * Snapshots the lock statistics of every keyspace of the manager since its creation.
+   *
+   * Render it with `formatPrometheusMetrics()` to serve a Prometheus scrape endpoint.
+   */
+  metrics(): AdvisoryLockMetrics
 }
 
 /**
@@ -42,10 +276,24 @@ export interface AdvisoryLockManager extends AdvisoryLockKeyspace {
  * A provided `postgres.Sql` instance remains owned by the caller.
  *
  * @param connection - A PostgreSQL connection string, postgres.js options, or an existing `postgres.Sql` instance.
+ * @param options - Manager settings and defaults for the root keyspace and its namespaces.
  * @returns The root lock manager with namespaced operations and lifecycle control.
  */
 export function createAdvisoryLockManager(
   connection: string | PostgresOptions | postgres.Sql,
+  {
+    fencingTable = "advisory_lock_fencing_tokens",
+    holderPollInterval,
+    holderSessions,
+    hooks,
+    maxConcurrentAcquisitions,
+    metrics,
+    probeInterval,
+    queueTimeout,
+    scheduleTable = "advisory_lock_schedule_runs",
+    tracer,
+    ...defaults
+  }: AdvisoryLockManagerOptions = {},
 ): AdvisoryLockManager {
   const ownsPool = typeof connection !== "function"
   const basePool =
@@ -57,22 +305,84 @@ export function createAdvisoryLockManager(
 
   const pool = new NestingPool(
     basePool,
-    ownsPool ? () => basePool.end() : undefined,
+    ownsPool
+      ? (force) => basePool.end(force ? { timeout: 0 } : undefined)
+      : undefined,
+    {
+      holderPollInterval,
+      holderSessions,
+      hooks,
+      maxConcurrentAcquisitions,
+      metrics,
+      probeInterval,
+      queueTimeout,
+      tracer,
+    },
   )
+  const fencingTokens = new FencingTokenStore(fencingTable)
+  const scheduleRuns = new ScheduleRunStore(scheduleTable)
 
-  function createKeyspace(namespaces: readonly string[]): AdvisoryLockKeyspace {
-    const createMutex = (name: string) =>
-      createAdvisoryMutex(pool, name, namespaces)
+  function createKeyspace(
+    namespaces: readonly string[],
+    defaults: AdvisoryLockKeyspaceOptions,
+  ): AdvisoryLockKeyspace {
+    const fencing = defaults.fencing ? fencingTokens : undefined
+    const createMutex = (key: AdvisoryLockKey) =>
+      createAdvisoryMutex(pool, key, namespaces, defaults, "exclusive", fencing)
 
     return {
+      acquire: (key, options) => createMutex(key).acquire(options),
+      createLeaderElection: (key, options) =>
+        createAdvisoryLeaderElection(pool, createMutex(key), options),
       createMutex,
-      namespace: (value) => createKeyspace([...namespaces, value]),
-      tryLock: (name) => createMutex(name).tryLock(),
-      tryWithLock: (name, fn) => createMutex(name).tryWithLock(fn),
-      withLock: (name, fn) => createMutex(name).withLock(fn),
-      wrapWithLock: (name, fn) => createMutex(name).wrapWithLock(fn),
+      createRwMutex: (key) =>
+        createAdvisoryRwMutex(pool, key, namespaces, defaults),
+      createSemaphore: (name, permits) =>
+        createAdvisorySemaphore(pool, name, permits, namespaces, defaults),
+      inspect: (key) => inspectAdvisoryLock(pool, key, namespaces),
+      schedule: (key, options, fn) =>
+        createAdvisoryScheduledJob(
+          pool,
+          createMutex(key),
+          key,
+          namespaces,
+          options.persistLastRun ? scheduleRuns : undefined,
+          fn,
+          options,
+        ),
+      lock: (key, options) => createMutex(key).lock(options),
+      namespace: (value, options) =>
+        createKeyspace([...namespaces, value], { ...defaults, ...options }),
+      tryLock: (key, options) => createMutex(key).tryLock(options),
+      tryWithLock: (key, fn, options) =>
+        createMutex(key).tryWithLock(fn, options),
+      tryWithLocks: (names, fn, options) =>
+        createAdvisoryLockSet(pool, names, namespaces, defaults).tryWithLocks(
+          fn,
+          options,
+        ),
+      tryXactLock: (tx, key, options) =>
+        createMutex(key).tryXactLock(tx, options),
+      withLock: (key, fn, options) => createMutex(key).withLock(fn, options),
+      withLocks: (names, fn, options) =>
+        createAdvisoryLockSet(pool, names, namespaces, defaults).withLocks(
+          fn,
+          options,
+        ),
+      wrapWithLock: (key, fn, options) =>
+        createMutex(key).wrapWithLock(fn, options),
+      xactLock: (tx, key, options) => createMutex(key).xactLock(tx, options),
     }
   }
 
-  return { close: () => pool.close(), ...createKeyspace([]) }
+  return {
+    close: (options) => pool.close(options),
+    [Symbol.asyncDispose]: async () => {
+      await pool.close()
+    },
+    installSqlHelpers: (options = {}) => installSqlHelpers(pool, options),
+    metrics: () =>
+      pool.metrics.snapshot(pool.reservedConnections, pool.queuedAcquisitions),
+    ...createKeyspace([], defaults),
+  }
 }
@@ -0,0 +1,295 @@
+import type { AdvisoryLockEvent } from "./hooks"
+
+/**
+ * Options for the metrics collected by a manager.
+ */
+export interface AdvisoryLockMetricsOptions {
+  /** Upper bounds in milliseconds of the wait and hold duration histogram buckets. */
+  buckets?: readonly number[]
+  /**
+   * Whether per-lock statistics are grouped by namespace chain, or by namespace chain and lock name.
+   *
+   * Defaults to `"namespace"`, since lock names often contain unbounded identifiers.
+   */
+  groupBy?: "name" | "namespace"
+}
+
+/**
+ * A cumulative histogram of durations in milliseconds.
+ */
+export interface AdvisoryLockHistogram {
+  /** The number of observations up to each bound, in ascending order of bounds. */
+  readonly buckets: readonly { readonly le: number; readonly count: number }[]
+  readonly count: number
+  readonly sum: number
+}
+
+/**
+ * Statistics of the locks in one group.
+ */
+export interface AdvisoryLockGroupMetrics {
+  readonly acquisitions: number
+  readonly contentions: number
+  readonly failures: number
+  readonly holdDuration: AdvisoryLockHistogram
+  /** The lock name, when grouping by name. */
+  readonly name?: string
+  readonly namespaces: readonly string[]
+  readonly waitDuration: AdvisoryLockHistogram
+}
+
+/**
+ * A snapshot of a manager's lock statistics since its creation.
+ */
+export interface AdvisoryLockMetrics {
+  /** Successful acquisitions. */
+  readonly acquisitions: number
+  /** Non-blocking attempts that found a lock unavailable. */
+  readonly contentions: number
+  /** Acquisitions that timed out, were aborted, or failed otherwise. */
+  readonly failures: number
+  readonly groups: readonly AdvisoryLockGroupMetrics[]
+  /** Locks currently held. */
+  readonly held: number
+  /** Top-level acquisitions currently queued for a connection by `maxConcurrentAcquisitions`. */
+  readonly queuedAcquisitions: number
+  /** Connections currently reserved by top-level acquisitions. */
+  readonly reservedConnections: number
+  /** Acquisitions currently waiting. */
+  readonly waiting: number
+}
+
+const defaultBuckets = [
+  5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10_000, 30_000, 60_000,
+]
+
+class Histogram {
+  private readonly counts: number[]
+  private count = 0
+  private sum = 0
+
+  constructor(private readonly bounds: readonly number[]) {
+    this.counts = bounds.map(() => 0)
+  }
+
+  observe(value: number) {
+    this.count += 1
+    this.sum += value
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) this.counts[index] = (this.counts[index] ?? 0) + 1
+    })
+  }
+
+  snapshot(): AdvisoryLockHistogram {
+    return {
+      buckets: this.bounds.map((le, index) => ({
+        le,
+        count: this.counts[index] ?? 0,
+      })),
+      count: this.count,
+      sum: this.sum,
+    }
+  }
+}
+
+class GroupMetrics {
+  acquisitions = 0
+  contentions = 0
+  failures = 0
+  readonly holdDuration: Histogram
+  readonly waitDuration: Histogram
+
+  constructor(
+    private readonly namespaces: readonly string[],
+    private readonly name: string | undefined,
+    buckets: readonly number[],
+  ) {
+    this.holdDuration = new Histogram(buckets)
+    this.waitDuration = new Histogram(buckets)
+  }
+
+  snapshot(): AdvisoryLockGroupMetrics {
+    return {
+      acquisitions: this.acquisitions,
+      contentions: this.contentions,
+      failures: this.failures,
+      holdDuration: this.holdDuration.snapshot(),
+      ...(this.name === undefined ? {} : { name: this.name }),
+      namespaces: this.namespaces,
+      waitDuration: this.waitDuration.snapshot(),
+    }
+  }
+}
+
+/**
+ * Counts the lock lifecycle reported by `LockTracker` for `AdvisoryLockManager.metrics()`.
+ */
+export class LockMetrics {
+  private readonly buckets: readonly number[]
+  private readonly groupBy: "name" | "namespace"
+  private readonly groups = new Map<string, GroupMetrics>()
+  private held = 0
+  private waiting = 0
+
+  constructor({
+    buckets = defaultBuckets,
+    groupBy = "namespace",
+  }: AdvisoryLockMetricsOptions = {}) {
+    this.buckets = [...buckets].sort((a, b) => a - b)
+    this.groupBy = groupBy
+  }
+
+  started() {
+    this.waiting += 1
+  }
+
+  acquired(event: AdvisoryLockEvent, waitDuration: number) {
+    this.waiting -= 1
+    this.held += 1
+    const group = this.group(event)
+    group.acquisitions += 1
+    group.waitDuration.observe(waitDuration)
+  }
+
+  contended(event: AdvisoryLockEvent, waitDuration: number) {
+    this.waiting -= 1
+    const group = this.group(event)
+    group.contentions += 1
+    group.waitDuration.observe(waitDuration)
+  }
+
+  failed(event: AdvisoryLockEvent, waitDuration: number) {
+    this.waiting -= 1
+    const group = this.group(event)
+    group.failures += 1
+    group.waitDuration.observe(waitDuration)
+  }
+
+  /** Records the end of a hold, whether or not the release succeeded. */
+  released(event: AdvisoryLockEvent, holdDuration: number) {
+    this.held -= 1
+    this.group(event).holdDuration.observe(holdDuration)
+  }
+
+  snapshot(
+    reservedConnections: number,
+    queuedAcquisitions: number,
+  ): AdvisoryLockMetrics {
+    const groups = [...this.groups.values()].map((group) => group.snapshot())
+    const total = (key: "acquisitions" | "contentions" | "failures") =>
+      groups.reduce((sum, group) => sum + group[key], 0)
+
+    return {
+      acquisitions: total("acquisitions"),
+      contentions: total("contentions"),
+      failures: total("failures"),
+      groups,
+      held: this.held,
+      queuedAcquisitions,
+      reservedConnections,
+      waiting: this.waiting,
+    }
+  }
+
+  private group({ name, namespaces }: AdvisoryLockEvent) {
+    const groupName = this.groupBy === "name" ? name : undefined
+    const key = JSON.stringify([namespaces, groupName])
+    let group = this.groups.get(key)
+    if (!group) {
+      group = new GroupMetrics(namespaces, groupName, this.buckets)
+      this.groups.set(key, group)
+    }
+    return group
+  }
+}
+
+/**
+ * Options for `formatPrometheusMetrics()`.
+ */
+export interface PrometheusFormatOptions {
+  /** Prefix of every metric name; defaults to `pg_advisory_lock`. */
+  prefix?: string
+}
+
+/**
+ * Renders a metrics snapshot in the Prometheus text exposition format.
+ *
+ * Durations are converted to seconds, and each group is labelled with its `/`-joined `namespace` and, when grouping by name, its `name`.
+ */
+export function formatPrometheusMetrics(
+  metrics: AdvisoryLockMetrics,
+  { prefix = "pg_advisory_lock" }: PrometheusFormatOptions = {},
+): string {
+  const lines: string[] = []
+  const header = (name: string, type: string, help: string) => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`)
+    lines.push(`# TYPE ${prefix}_${name} ${type}`)
+  }
+
+  const counters = [
+    ["acquisitions", "Successful lock acquisitions."],
+    ["contentions", "Non-blocking attempts that found a lock unavailable."],
+    ["failures", "Lock acquisitions that timed out or failed."],
+  ] as const
+  for (const [key, help] of counters) {
+    header(`${key}_total`, "counter", help)
+    for (const group of metrics.groups) {
+      lines.push(`${prefix}_${key}_total${formatLabels(group)} ${group[key]}`)
+    }
+  }
+
+  const gauges = [
+    ["waiting", "Lock acquisitions currently waiting."],
+    ["held", "Locks currently held."],
+    ["reservedConnections", "Connections currently reserved for locks."],
+    [
+      "queuedAcquisitions",
+      "Lock acquisitions currently queued for a connection.",
+    ],
+  ] as const
+  for (const [key, help] of gauges) {
+    const name = key.replace(/[A-Z]/g, (char) => `_${char.toLowerCase()}`)
+    header(name, "gauge", help)
+    lines.push(`${prefix}_${name} ${metrics[key]}`)
+  }
+
+  const histograms = [
+    ["waitDuration", "wait_duration_seconds", "Time spent acquiring locks."],
+    ["holdDuration", "hold_duration_seconds", "Time locks were held."],
+  ] as const
+  for (const [key, name, help] of histograms) {
+    header(name, "histogram", help)
+    for (const group of metrics.groups) {
+      const histogram = group[key]
+      for (const { le, count } of histogram.buckets) {
+        lines.push(
+          `${prefix}_${name}_bucket${formatLabels(group, String(le / 1000))} ${count}`,
+        )
+      }
+      lines.push(
+        `${prefix}_${name}_bucket${formatLabels(group, "+Inf")} ${histogram.count}`,
+      )
+      lines.push(
+        `${prefix}_${name}_sum${formatLabels(group)} ${histogram.sum / 1000}`,
+      )
+      lines.push(
+        `${prefix}_${name}_count${formatLabels(group)} ${histogram.count}`,
+      )
+    }
+  }
+
+  return `${lines.join("\n")}\n`
+}
+
+function formatLabels(group: AdvisoryLockGroupMetrics, le?: string) {
+  const labels: [string, string][] = [["namespace", group.namespaces.join("/")]]
+  if (group.name !== undefined) labels.push(["name", group.name])
+  if (le !== undefined) labels.push(["le", le])
+  return `{${labels.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`
+}
+
+function escapeLabelValue(value: string) {
+  return value.replace(/[\\"\n]/g, (char) =>
+    char === "\n" ? "\\n" : `\\${char}`,
+  )
+}
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test"
+
+import postgres from "postgres"
+
+import { databaseUrl, sleep } from "#test-utils"
+
+import { ConnectionLostError } from "./errors"
+import { ConnectionMonitor } from "./monitor"
+
+const applicationName = "pg-advisory-lock-monitor-test"
+
+describe("test ConnectionMonitor", () => {
+  let adminSql: postgres.Sql
+  let sql: postgres.Sql
+
+  beforeEach(() => {
+    adminSql = postgres(databaseUrl, { max: 1 })
+    sql = postgres(databaseUrl, {
+      connection: { application_name: applicationName },
+      max: 1,
+    })
+  })
+
+  afterEach(async () => {
+    await Promise.all([adminSql.end(), sql.end({ timeout: 0 })])
+  })
+
+  async function terminate() {
+    await adminSql`
+      SELECT FROM (
+        SELECT pg_terminate_backend(pid)
+        FROM pg_stat_activity
+        WHERE application_name = ${applicationName}
+      ) AS terminated
+      OFFSET 1000
+    `
+  }
+
+  // Close detection relies on postgres.js internals; this test fails if an upgrade changes them.
+  it("detects the close of an idle connection without probing", async () => {
+    const client = await sql.reserve()
+    const monitor = new ConnectionMonitor(client, 0)
+    const lost = Promise.withResolvers<Error>()
+    monitor.onLost(lost.resolve)
+    monitor.start()
+    // The subscribing query completes before the connection goes idle.
+    await client`SELECT 1`
+
+    await terminate()
+    const timeout = setTimeout(
+      () => lost.reject(new Error("The close was not detected")),
+      2_000,
+    )
+    try {
+      const error = await lost.promise
+      expect(error).toBeInstanceOf(ConnectionLostError)
+      expect(error).toHaveProperty("cause.code", "CONNECTION_CLOSED")
+      expect(monitor.lost).toBe(true)
+    } finally {
+      clearTimeout(timeout)
+      monitor.stop()
+    }
+  })
+
+  it("warns when postgres.js does not hand over the connection", async () => {
+    const warned = spyOn(console, "warn").mockImplementation(() => {})
+    const client = await sql.reserve()
+    // Simulates a postgres.js version that ignores the `onexecute` option.
+    const unsafe = client.unsafe.bind(client)
+    client.unsafe = ((query: string) => unsafe(query)) as typeof client.unsafe
+    const monitor = new ConnectionMonitor(client, 0)
+    try {
+      monitor.start()
+      await client`SELECT 1`
+      // Lets the monitor resume after its subscribing query.
+      await sleep(10)
+
+      expect(warned).toHaveBeenCalledTimes(1)
+      expect(warned.mock.calls[0]?.[0]).toContain("liveness probes")
+    } finally {
+      monitor.stop()
+      client.release()
+      warned.mockRestore()
+    }
+  })
+
+  it("reports failed queries of a closed connection as its loss", async () => {
+    const client = await sql.reserve()
+    const monitor = new ConnectionMonitor(client, 0)
+    try {
+      monitor.reportFailure(
+        Object.assign(new Error("deadlock detected"), { code: "40P01" }),
+      )
+      expect(monitor.lost).toBe(false)
+
+      const closed = Object.assign(new Error("write CONNECTION_CLOSED"), {
+        code: "CONNECTION_CLOSED",
+      })
+      monitor.reportFailure(closed)
+      expect(monitor.lost).toBe(true)
+      expect(() => monitor.throwIfLost()).toThrow(ConnectionLostError)
+    } finally {
+      monitor.stop()
+      client.release()
+    }
+  })
+})
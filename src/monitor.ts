@@ -0,0 +1,205 @@
+import type { ReservedSql, UnsafeQueryOptions } from "postgres"
+
+import type { LockReference } from "./errors"
+import { ConnectionLostError, lockLossError } from "./errors"
+
+/**
+ * The postgres.js connection behind a reserved client.
+ *
+ * postgres.js calls its `onclose` when the socket closes, as it does for transactions.
+ */
+type PostgresConnection = { onclose: ((error: unknown) => void) | null }
+
+/**
+ * The query option through which postgres.js hands its transactions the executing connection.
+ *
+ * Neither this option nor `PostgresConnection` is public API.
+ * A postgres.js instance that does not honor the option is detected at runtime and reported with a warning,
+ * and `monitor.test.ts` fails if the installed version stops honoring either.
+ */
+type ExecuteOptions = UnsafeQueryOptions & {
+  onexecute?: (connection: PostgresConnection) => boolean
+}
+
+/** The postgres.js error codes of a closed connection, and the SQLSTATEs of a terminated session. */
+const connectionErrorCodes = new Set([
+  "CONNECTION_CLOSED",
+  "CONNECTION_DESTROYED",
+  "CONNECTION_ENDED",
+  "57P01",
+  "57P02",
+  "57P03",
+])
+
+function isConnectionError(error: unknown) {
+  if (!(error instanceof Error && "code" in error)) return false
+  const { code } = error
+  return (
+    typeof code === "string" &&
+    (connectionErrorCodes.has(code) || code.startsWith("08"))
+  )
+}
+
+let warnedUndetectedClose = false
+
+function warnUndetectedClose() {
+  if (warnedUndetectedClose) return
+  warnedUndetectedClose = true
+  console.warn(
+    "pg-advisory-lock: this postgres.js instance does not report connection closes; lost locks are detected by liveness probes and failed lock queries only",
+  )
+}
+
+/**
+ * Detects the loss of a reserved connection when it closes, or fails a periodic liveness probe or a lock query.
+ *
+ * PostgreSQL releases session-level locks when their session ends,
+ * so a lost connection no longer holds any of its locks.
+ */
+export class ConnectionMonitor {
+  private connection: PostgresConnection | undefined
+  private controller: AbortController | undefined
+  private error: Error | undefined
+  private readonly listeners = new Set<(error: Error) => void>()
+  /** The loss error attributed to each lock, so that every report of one lock's loss is the same error. */
+  private readonly lockErrors = new WeakMap<LockReference, Error>()
+  private stopped = false
+  private timer: ReturnType<typeof setTimeout> | undefined
+
+  private readonly onClose = (cause: unknown) => {
+    this.lose(new ConnectionLostError({ cause }))
+  }
+
+  constructor(
+    private readonly client: ReservedSql,
+    private readonly probeInterval: number,
+  ) {}
+
+  /** A signal aborted with the loss error once the connection is lost. */
+  get signal(): AbortSignal {
+    // Created on demand: AbortController is unavailable on the oldest supported Node.js versions.
+    if (!this.controller) {
+      this.controller = new AbortController()
+      if (this.error) this.controller.abort(this.error)
+    }
+    return this.controller.signal
+  }
+
+  /** Whether the connection was lost; a lost client must not be queried or released. */
+  get lost(): boolean {
+    return this.error !== undefined
+  }
+
+  /** Throws the loss error if the connection was lost, attributed to `lock` if given. */
+  throwIfLost(lock?: LockReference) {
+    if (this.error) throw this.lossOf(this.error, lock)
+  }
+
+  /**
+   * Calls `listener` once when the connection is lost, or soon if it already was, with the loss attributed to `lock` if given.
+   *
+   * @returns a function that removes the listener.
+   */
+  onLost(listener: (error: Error) => void, lock?: LockReference): () => void {
+    const { error } = this
+    if (error) {
+      queueMicrotask(() => listener(this.lossOf(error, lock)))
+      return () => {}
+    }
+
+    const notify = (error: Error) => listener(this.lossOf(error, lock))
+    this.listeners.add(notify)
+    return () => {
+      this.listeners.delete(notify)
+    }
+  }
+
+  private lossOf(error: Error, lock: LockReference | undefined): Error {
+    if (!lock) return error
+    let lockError = this.lockErrors.get(lock)
+    if (!lockError) {
+      lockError = lockLossError(error, lock)
+      this.lockErrors.set(lock, lockError)
+    }
+    return lockError
+  }
+
+  /** Reports the failure of a query on the connection as its loss if the failure means that the connection closed. */
+  reportFailure(error: unknown) {
+    if (isConnectionError(error)) this.onClose(error)
+  }
+
+  /**
+   * Reports `error` as the loss of the connection although it remains open.
+   *
+   * Once revoked, the connection must not be queried except to release its locks.
+   */
+  revoke(error: Error) {
+    this.lose(error)
+  }
+
+  start() {
+    void this.watch()
+  }
+
+  /** Stops probing when the connection is released; later failures are not reported. */
+  stop() {
+    this.stopped = true
+    clearTimeout(this.timer)
+    this.listeners.clear()
+    if (this.connection?.onclose === this.onClose)
+      this.connection.onclose = null
+  }
+
+  /** Subscribes to the close of the connection, then starts probing it. */
+  private async watch() {
+    // postgres.js pipelines the first query of the reservation behind this one, so subscribing costs no round trip.
+    const options: ExecuteOptions = {
+      onexecute: (connection) => {
+        this.connection = connection
+        if (!this.stopped) connection.onclose = this.onClose
+        return true
+      },
+    }
+    if (!(await this.query(options))) return
+    if (!this.connection) warnUndetectedClose()
+
+    if (this.probeInterval > 0 && Number.isFinite(this.probeInterval)) {
+      this.schedule()
+    }
+  }
+
+  private schedule() {
+    this.timer = setTimeout(() => void this.probe(), this.probeInterval)
+    this.timer.unref?.()
+  }
+
+  private async probe() {
+    if (await this.query()) this.schedule()
+  }
+
+  /** Runs a rowless query unless the connection is released or lost, reporting a failure as a loss. */
+  private async query(options?: ExecuteOptions): Promise<boolean> {
+    // postgres.js writes to a closed connection's missing socket outside the query promise.
+    if (this.stopped || this.error) return false
+    try {
+      // Keep the probe rowless: postgres.js row transforms apply to every row.
+      await this.client.unsafe("SELECT WHERE false", [], options)
+    } catch (cause) {
+      this.onClose(cause)
+      return false
+    }
+    return !this.stopped
+  }
+
+  private lose(error: Error) {
+    if (this.stopped || this.error) return
+    this.error = error
+    this.controller?.abort(error)
+    for (const listener of this.listeners) {
+      // Report listener errors like event listeners do, without interrupting the others.
+      queueMicrotask(() => listener(error))
+    }
+    this.listeners.clear()
+  }
+}
@@ -1,6 +1,97 @@
-import type { ReservedSql } from "postgres"
+import type { PendingQuery, ReservedSql, Row, TransactionSql } from "postgres"
 
-import type { NestingPool } from "./pool"
+import { awaitCancellable, pollCancellable, throwIfAborted } from "./cancel"
+import type { LockReference } from "./errors"
+import {
+  DeadlockError,
+  LockNotHeldError,
+  LockTimeoutError,
+  ReentrantLockError,
+} from "./errors"
+import type { FencingTokenStore } from "./fencing"
+import type { LockOperation } from "./hooks"
+import { LockTracker } from "./hooks"
+import type { AdvisoryLockKey } from "./key"
+import {
+  formatLockKey,
+  lockArguments,
+  lockIdentity,
+  lockKeyValue,
+  lockObjectSubId,
+  validateLockKey,
+} from "./key"
+import type { ConnectionMonitor } from "./monitor"
+import type {
+  EnterLocksOptions,
+  NestingPool,
+  NestingPoolAcquireOptions,
+  NestingPoolClient,
+  SharedFencingToken,
+} from "./pool"
+import type { RetryOptions } from "./retry"
+import { retryAttempt } from "./retry"
+
+/**
+ * State of a held lock passed to the protected callback.
+ */
+export interface LockContext {
+  /**
+   * The token issued on acquisition when the keyspace enables `fencing`.
+   *
+   * Pass it to downstream storage so that writes carrying an older token can be rejected.
+   */
+  readonly fencingToken?: bigint
+  /**
+   * Aborts when the lock-owning connection is lost, after which PostgreSQL no longer holds the lock.
+   *
+   * Long-running work should stop writing when it fires, since another instance may acquire the lock.
+   */
+  readonly signal: AbortSignal
+}
+
+/**
+ * Releases a manually acquired lock and its connection.
+ *
+ * Calls after the first return the same promise.
+ */
+export interface UnlockFunction {
+  (): Promise<void>
+  /** The token issued on acquisition when the keyspace enables `fencing`. */
+  readonly fencingToken?: bigint
+  /**
+   * Calls `listener` once if the lock's connection is lost before the lock is released.
+   *
+   * @returns a function that removes the listener.
+   */
+  onLost(listener: (error: Error) => void): () => void
+}
+
+/**
+ * A manually acquired lock, callable like its `unlock()` method.
+ *
+ * Disposing it with `await using` unlocks it at the end of the scope.
+ */
+export interface LockHandle extends UnlockFunction, AsyncDisposable {
+  /** When the lock was acquired. */
+  readonly acquiredAt: Date
+  /** The lock name, or a raw key as in events. */
+  readonly name: string
+  readonly namespaces: readonly string[]
+  /**
+   * Checks `pg_locks` for the lock on the handle's connection.
+   *
+   * Resolves to `false` once unlocked or lost without querying.
+   */
+  isHeld(): Promise<boolean>
+  /**
+   * Executes `fn` in the lock's context, so nested operations reuse its connection like inside `withLock()`.
+   *
+   * The connection stays reserved until `fn` settles, even if the lock is released meanwhile.
+   */
+  run<T>(fn: (context: LockContext) => PromiseLike<T>): Promise<T>
+  /** Releases the lock and its connection; calls after the first return the same promise. */
+  unlock(): Promise<void>
+}
 
 /**
  * The discriminated result of a non-blocking lock attempt with a callback.
@@ -9,59 +100,250 @@ export type TryWithLockResult<T> =
   | { acquired: false }
   | { acquired: true; result: T }
 
+/**
+ * Options for a non-blocking lock attempt.
+ */
+export interface TryLockOptions {
+  /**
+   * How `withLock()`, `tryWithLock()`, `withLocks()`, and `tryWithLocks()` nested in another lock callback treat a lock already held on its connection.
+   *
+   * Overrides the keyspace default of `session`.
+   */
+  reentrancy?: ReentrancyPolicy
+  /**
+   * Cancels the attempt; the operation rejects with `signal.reason` and never leaves the lock held.
+   *
+   * For `lock()` and `tryLock()`, aborting after acquisition also releases the lock.
+   */
+  signal?: AbortSignal
+}
+
+/**
+ * Options for a non-blocking lock attempt that may be repeated.
+ */
+export interface RetryingTryLockOptions extends TryLockOptions {
+  /**
+   * Repeats unsuccessful attempts with backoff.
+   *
+   * The connection is released between attempts, so waiting does not pin a pool connection like `withLock()` does.
+   */
+  retry?: RetryOptions
+}
+
+/**
+ * Options for a blocking lock acquisition.
+ */
+export interface WithLockOptions extends TryLockOptions {
+  /**
+   * Milliseconds to wait for the lock before rejecting with `LockTimeoutError`.
+   *
+   * Overrides the keyspace default; `Infinity` waits without a timeout.
+   */
+  timeout?: number
+}
+
 /**
  * A reusable mutex bound to one logical advisory lock name and its namespaces.
  */
 export interface AdvisoryMutex {
-  tryLock(): Promise<(() => Promise<void>) | undefined>
-  tryWithLock<T>(fn: () => PromiseLike<T>): Promise<TryWithLockResult<T>>
-  withLock<T>(fn: () => PromiseLike<T>): Promise<T>
+  acquire(options?: WithLockOptions): Promise<LockHandle>
+  lock(options?: WithLockOptions): Promise<LockHandle>
+  tryLock(options?: RetryingTryLockOptions): Promise<LockHandle | undefined>
+  tryWithLock<T>(
+    fn: (context: LockContext) => PromiseLike<T>,
+    options?: RetryingTryLockOptions,
+  ): Promise<TryWithLockResult<T>>
+  tryXactLock(tx: TransactionSql, options?: TryLockOptions): Promise<boolean>
+  withLock<T>(
+    fn: (context: LockContext) => PromiseLike<T>,
+    options?: WithLockOptions,
+  ): Promise<T>
   wrapWithLock<TArgs extends readonly unknown[], TReturn>(
     fn: (...args: TArgs) => PromiseLike<TReturn>,
+    options?: WithLockOptions,
   ): (...args: TArgs) => Promise<TReturn>
+  xactLock(tx: TransactionSql, options?: WithLockOptions): Promise<void>
 }
 
+/**
+ * How a nested acquisition treats a lock already held on the connection of its lock context.
+ *
+ * - `session` acquires it again on the shared session, so sibling callbacks may overlap.
+ * - `exclusive` waits in-process until callbacks other than enclosing ones release it, so siblings never overlap.
+ * - `reject` throws `ReentrantLockError`.
+ */
+export type ReentrancyPolicy = "exclusive" | "reject" | "session"
+
+/** How long an acquisition waits for the lock, with `timeout` counting from `startedAt`. */
+type LockWait = {
+  signal?: AbortSignal
+  startedAt?: number
+  timeout?: number
+}
+
+/** Whether a mutex takes exclusive locks or shared locks that admit other shared holders. */
+export type LockMode = "exclusive" | "shared"
+
 class PostgresAdvisoryMutex implements AdvisoryMutex {
+  private readonly key: AdvisoryLockKey
   private readonly name: string
   private readonly namespaces: readonly string[]
   private readonly pool: NestingPool
+  private readonly defaults: WithLockOptions
+  private readonly mode: LockMode
+  private readonly fencing: FencingTokenStore | undefined
+  /** Attributes the loss of the connection to this lock. */
+  private readonly reference: LockReference
 
   constructor(
     pool: NestingPool,
-    name: string,
+    key: AdvisoryLockKey,
     namespaces: readonly string[] = [],
+    defaults: WithLockOptions = {},
+    mode: LockMode = "exclusive",
+    fencing?: FencingTokenStore,
   ) {
-    this.name = name
+    validateLockKey(key)
+    this.key = key
+    this.name = formatLockKey(key)
     this.namespaces = namespaces
     this.pool = pool
+    this.defaults = defaults
+    this.mode = mode
+    this.fencing = fencing
+    this.reference = { lockName: this.name, namespaces }
+  }
+
+  private lockKey(sql: ReservedSql | TransactionSql) {
+    return lockArguments(sql, this.key, this.namespaces)
+  }
+
+  private lockCall(client: ReservedSql) {
+    const key = this.lockKey(client)
+    return this.mode === "shared"
+      ? client`pg_advisory_lock_shared(${key})`
+      : client`pg_advisory_lock(${key})`
+  }
+
+  private tryLockCall(client: ReservedSql) {
+    const key = this.lockKey(client)
+    return this.mode === "shared"
+      ? client`pg_try_advisory_lock_shared(${key})`
+      : client`pg_try_advisory_lock(${key})`
+  }
+
+  private xactLockCall(tx: TransactionSql) {
+    const key = this.lockKey(tx)
+    return this.mode === "shared"
+      ? tx`pg_advisory_xact_lock_shared(${key})`
+      : tx`pg_advisory_xact_lock(${key})`
   }
 
-  private lockKey(client: ReservedSql) {
-    const zero = client`0`
-    const hash = (value: string, seed: typeof zero) =>
-      client`hashtextextended(${value}::text COLLATE "C", ${seed})`
+  private tryXactLockCall(tx: TransactionSql) {
+    const key = this.lockKey(tx)
+    return this.mode === "shared"
+      ? tx`pg_try_advisory_xact_lock_shared(${key})`
+      : tx`pg_try_advisory_xact_lock(${key})`
+  }
+
+  private unlockCall(client: ReservedSql) {
+    const key = this.lockKey(client)
+    return this.mode === "shared"
+      ? client`pg_advisory_unlock_shared(${key})`
+      : client`pg_advisory_unlock(${key})`
+  }
 
-    let seed = zero
-    for (const namespace of this.namespaces) {
-      seed = hash(namespace, seed)
+  private async waitForLock(
+    client: ReservedSql,
+    monitor: ConnectionMonitor,
+    options: WithLockOptions & { startedAt?: number },
+  ): Promise<void> {
+    if (this.pool.multiplexed) {
+      const { signal, startedAt, timeout } = options
+      await pollCancellable(
+        () => this.attemptLock(client),
+        {
+          interval: this.pool.pollInterval,
+          lock: this.reference,
+          monitor,
+          signal,
+          timeout:
+            timeout === undefined || startedAt === undefined
+              ? timeout
+              : timeout - (Date.now() - startedAt),
+        },
+        () => new LockTimeoutError(this.name, this.namespaces, timeout ?? 0),
+      )
+      return
     }
 
-    return hash(this.name, seed)
+    await this.awaitLock(
+      client`
+        SELECT
+        FROM (SELECT ${this.lockCall(client)}) AS control
+        OFFSET 1
+      `,
+      { ...options, lock: this.reference, monitor },
+      () => this.unlock(client),
+    )
   }
 
-  private async lock(client: ReservedSql): Promise<void> {
-    await client`
-      SELECT
-      FROM (SELECT pg_advisory_lock(${this.lockKey(client)})) AS control
-      OFFSET 1
-    `
+  /** Awaits a blocking lock query, whose `timeout` counts from `startedAt` when the acquisition waited in-process first. */
+  private async awaitLock(
+    query: PendingQuery<Row[]>,
+    options: WithLockOptions & {
+      lock?: LockReference
+      monitor?: ConnectionMonitor
+      startedAt?: number
+    },
+    release: () => Promise<unknown>,
+  ): Promise<void> {
+    const { startedAt, timeout } = options
+    await awaitCancellable(
+      query,
+      {
+        ...options,
+        timeout:
+          timeout === undefined || startedAt === undefined
+            ? timeout
+            : timeout - (Date.now() - startedAt),
+      },
+      () => new LockTimeoutError(this.name, this.namespaces, timeout ?? 0),
+      (cause) => new DeadlockError(this.name, this.namespaces, { cause }),
+      release,
+    )
   }
 
-  private async tryToLock(client: ReservedSql): Promise<boolean> {
+  private async tryToLock(
+    client: ReservedSql,
+    signal: AbortSignal | undefined,
+    tracker: LockTracker,
+  ): Promise<boolean> {
+    throwIfAborted(signal)
+    tracker.start()
+    try {
+      if (!(await this.attemptLock(client))) {
+        tracker.contended()
+        return false
+      }
+
+      if (signal?.aborted) {
+        await this.unlock(client)
+        throw signal.reason
+      }
+    } catch (error) {
+      tracker.failed(error)
+      throw error
+    }
+    tracker.acquired()
+    return true
+  }
+
+  private async attemptLock(client: ReservedSql): Promise<boolean> {
     const result = await client`
       SELECT
       FROM (
-        SELECT pg_try_advisory_lock(${this.lockKey(client)}) AS succeeded
+        SELECT ${this.tryLockCall(client)} AS succeeded
       ) AS control
       -- Keep success rowless: postgres.js row transforms can throw after acquisition.
       WHERE NOT succeeded
@@ -69,11 +351,116 @@ class PostgresAdvisoryMutex implements AdvisoryMutex {
     return result.count === 0
   }
 
+  private track(operation: LockOperation, depth: number) {
+    return new LockTracker(this.pool, operation, {
+      depth,
+      mode: this.mode,
+      name: this.name,
+      namespaces: this.namespaces,
+    })
+  }
+
+  /**
+   * Waits behind the other blocking acquisitions of this lock in the process, when this one would reserve a connection of its own.
+   *
+   * Nested acquisitions reuse the enclosing connection instead, and shared locks admit each other.
+   */
+  private async takeTurn(options: {
+    signal: AbortSignal | undefined
+    startedAt: number
+    timeout: number | undefined
+  }): Promise<() => void> {
+    if (this.mode === "shared" || this.pool.nestingDepth() > 0) return () => {}
+    return await this.pool.waiters.take(
+      lockIdentity(this.key, this.namespaces),
+      {
+        ...options,
+        timeoutError: (timeout) =>
+          new LockTimeoutError(this.name, this.namespaces, timeout),
+      },
+    )
+  }
+
+  /**
+   * Applies the reentrancy policy to the lock context just opened for this lock.
+   *
+   * Without `wait`, resolves to `undefined` if the lock must wait for a sibling callback.
+   */
+  private enter({ reentrancy }: TryLockOptions, wait: LockWait | undefined) {
+    return this.pool.enterLocks(
+      [lockIdentity(this.key, this.namespaces)],
+      reentrancy ?? this.defaults.reentrancy ?? "session",
+      this.enterOptions(wait),
+    )
+  }
+
+  /** Records a lock handle acquired on `pooled` outside of any lock context, whose owner may share a holder session with others. */
+  private enterHandle(pooled: NestingPoolClient, wait: LockWait | undefined) {
+    return pooled.enter(
+      [lockIdentity(this.key, this.namespaces)],
+      "session",
+      this.enterOptions(wait),
+    )
+  }
+
+  private enterOptions(wait: LockWait | undefined): EnterLocksOptions {
+    return {
+      reentrantError: () => new ReentrantLockError(this.name, this.namespaces),
+      shared: this.mode === "shared",
+      signal: wait?.signal,
+      startedAt: wait?.startedAt,
+      timeout: wait?.timeout,
+      timeoutError: (timeout) =>
+        new LockTimeoutError(this.name, this.namespaces, timeout),
+      wait: wait !== undefined,
+    }
+  }
+
+  /** Identifies this lock in the errors of reserving a connection, whose wait counts towards the `timeout` of the acquisition. */
+  private acquireOptions({
+    signal,
+    startedAt,
+    timeout,
+  }: LockWait): NestingPoolAcquireOptions {
+    return {
+      lockName: this.name,
+      namespaces: this.namespaces,
+      signal,
+      startedAt,
+      timeout,
+      timeoutError: (timeout) =>
+        new LockTimeoutError(this.name, this.namespaces, timeout),
+    }
+  }
+
+  /**
+   * Issues the next fencing token of the held lock if fencing is enabled, or shares the token of the acquisitions holding it on the same connection.
+   *
+   * @param pooled - The connection of a lock handle, instead of the current lock context.
+   */
+  private async shareFencingToken(
+    client: ReservedSql,
+    pooled?: NestingPoolClient,
+  ): Promise<SharedFencingToken | undefined> {
+    const fencing = this.fencing
+    if (!fencing) return undefined
+    const issue = () =>
+      fencing.issue(
+        client,
+        lockKeyValue(client, this.key, this.namespaces),
+        lockObjectSubId(this.key),
+      )
+    const id = lockIdentity(this.key, this.namespaces)
+    return pooled
+      ? await pooled.shareFencingToken(id, issue)
+      : await this.pool.shareFencingToken(id, issue)
+  }
+
   private async unlock(client: ReservedSql): Promise<boolean> {
     const result = await client`
       SELECT
       FROM (
-        SELECT pg_advisory_unlock(${this.lockKey(client)}) AS succeeded
+        SELECT ${this.unlockCall(client)} AS succeeded
       ) AS control
       -- Keep success rowless: postgres.js row transforms can throw after release.
       WHERE NOT succeeded
@@ -81,99 +468,440 @@ class PostgresAdvisoryMutex implements AdvisoryMutex {
     return result.count === 0
   }
 
+  private async isHeldBy(client: ReservedSql): Promise<boolean> {
+    const result = await client`
+      SELECT
+      FROM (
+        SELECT ${lockKeyValue(client, this.key, this.namespaces)} AS key
+      ) AS target
+      JOIN pg_locks AS locks
+        ON locks.locktype = 'advisory'
+        AND locks.pid = pg_backend_pid()
+        AND locks.granted
+        AND locks.mode = ${this.mode === "shared" ? "ShareLock" : "ExclusiveLock"}
+        AND locks.classid = ((target.key >> 32) & 4294967295)::oid
+        AND locks.objid = (target.key & 4294967295)::oid
+        AND locks.objsubid = ${lockObjectSubId(this.key)}
+    `
+    return result.count > 0
+  }
+
   /**
    * Acquires the lock and executes the provided function.
+   *
+   * Aborting `options.signal` while waiting cancels the acquisition.
+   *
+   * @throws {LockTimeoutError} if the lock is not acquired within the configured timeout.
    */
-  async withLock<T>(fn: () => PromiseLike<T>): Promise<T> {
-    return await this.pool.withClient(async (client) => {
-      await this.lock(client)
+  async withLock<T>(
+    fn: (context: LockContext) => PromiseLike<T>,
+    options: WithLockOptions = {},
+  ): Promise<T> {
+    const { signal } = options
+    throwIfAborted(signal)
+    const tracker = this.track("withLock", this.pool.nestingDepth() + 1)
+    const timeout = options.timeout ?? this.defaults.timeout
+    const startedAt = Date.now()
+    tracker.start()
 
-      try {
-        return await fn()
-      } finally {
-        await this.unlock(client)
-      }
-    })
+    let acquired = false
+    let endTurn: (() => void) | undefined
+    try {
+      endTurn = await this.takeTurn({ signal, startedAt, timeout })
+      return await this.pool.withClient(async (client, monitor) => {
+        let leave: (() => void) | undefined
+        try {
+          leave = await this.enter(options, { signal, startedAt, timeout })
+          await this.waitForLock(client, monitor, {
+            signal,
+            startedAt,
+            timeout,
+          })
+        } catch (error) {
+          leave?.()
+          throw error
+        }
+        acquired = true
+        tracker.acquired()
+
+        let fencing: SharedFencingToken | undefined
+        try {
+          fencing = await this.shareFencingToken(client)
+          return await fn(createLockContext(monitor, fencing?.token))
+        } finally {
+          fencing?.end()
+          try {
+            await tracker.release(async () => {
+              monitor.throwIfLost(this.reference)
+              await this.unlock(client)
+            })
+          } finally {
+            leave?.()
+          }
+        }
+      }, this.acquireOptions({ signal, startedAt, timeout }))
+    } catch (error) {
+      if (!acquired) tracker.failed(error)
+      throw error
+    } finally {
+      endTurn?.()
+    }
   }
 
   /**
    * Attempts to acquire the lock without blocking and execute the provided function if successful.
    *
+   * With `options.retry`, unsuccessful attempts are repeated on a newly reserved connection each.
+   *
    * @returns
    *  - `{ acquired: false }` if the lock is not available
    *  - `{ acquired: true, result: T }` if the lock was acquired and the function executed
    */
   async tryWithLock<T>(
-    fn: () => PromiseLike<T>,
+    fn: (context: LockContext) => PromiseLike<T>,
+    { reentrancy, retry, signal }: RetryingTryLockOptions = {},
+  ): Promise<TryWithLockResult<T>> {
+    return await retryAttempt(
+      () => this.tryWithLockOnce(fn, signal, reentrancy),
+      (result) => result.acquired,
+      retry,
+      signal,
+    )
+  }
+
+  private async tryWithLockOnce<T>(
+    fn: (context: LockContext) => PromiseLike<T>,
+    signal: AbortSignal | undefined,
+    reentrancy: ReentrancyPolicy | undefined,
   ): Promise<TryWithLockResult<T>> {
-    return await this.pool.withClient(async (client) => {
-      if (await this.tryToLock(client)) {
+    throwIfAborted(signal)
+    return await this.pool.withClient(async (client, monitor) => {
+      const tracker = this.track("tryWithLock", this.pool.nestingDepth())
+      let leave: (() => void) | undefined
+      try {
+        leave = await this.enter({ reentrancy }, undefined)
+      } catch (error) {
+        tracker.start()
+        tracker.failed(error)
+        throw error
+      }
+      if (!leave) {
+        tracker.start()
+        tracker.contended()
+        return { acquired: false }
+      }
+
+      try {
+        if (!(await this.tryToLock(client, signal, tracker))) {
+          return { acquired: false }
+        }
+        let fencing: SharedFencingToken | undefined
         try {
-          return { acquired: true, result: await fn() }
+          fencing = await this.shareFencingToken(client)
+          return {
+            acquired: true,
+            result: await fn(createLockContext(monitor, fencing?.token)),
+          }
         } finally {
-          await this.unlock(client)
+          fencing?.end()
+          await tracker.release(async () => {
+            monitor.throwIfLost(this.reference)
+            await this.unlock(client)
+          })
         }
-      } else {
-        return { acquired: false }
+      } finally {
+        leave()
       }
+    }, this.acquireOptions({ signal }))
+  }
+
+  /**
+   * Acquires the lock like `lock()`, for releasing it with `await using handle = await mutex.acquire()`.
+   *
+   * @throws {LockTimeoutError} if the lock is not acquired within the configured timeout.
+   */
+  acquire(options?: WithLockOptions): Promise<LockHandle> {
+    return this.lock(options)
+  }
+
+  /**
+   * Acquires the lock, waiting for it like `withLock()`.
+   *
+   * The returned handle must be unlocked to release the lock and its connection.
+   * Aborting `options.signal` while waiting cancels the acquisition, and aborting it afterwards unlocks the handle.
+   *
+   * @throws {LockTimeoutError} if the lock is not acquired within the configured timeout.
+   */
+  async lock(options: WithLockOptions = {}): Promise<LockHandle> {
+    const { signal } = options
+    throwIfAborted(signal)
+    // A manual lock does not open a nesting context of its own.
+    const tracker = this.track("lock", this.pool.nestingDepth() + 1)
+    const timeout = options.timeout ?? this.defaults.timeout
+    const startedAt = Date.now()
+    tracker.start()
+
+    let endTurn: (() => void) | undefined
+    let leave: (() => void) | undefined
+    let pooled: NestingPoolClient | undefined
+    try {
+      endTurn = await this.takeTurn({ signal, startedAt, timeout })
+      pooled = await this.pool.getClient(
+        this.acquireOptions({ signal, startedAt, timeout }),
+      )
+      leave = await this.enterHandle(pooled, { signal, startedAt, timeout })
+      await this.waitForLock(pooled.client, pooled.monitor, {
+        signal,
+        startedAt,
+        timeout,
+      })
+    } catch (error) {
+      leave?.()
+      pooled?.release()
+      endTurn?.()
+      tracker.failed(error)
+      throw error
+    }
+    tracker.acquired()
+    // A lost session no longer holds the lock, so the local waiters need not wait for the handle to be unlocked.
+    const removeLostListener = pooled.monitor.onLost(endTurn)
+    return await this.createHandle(pooled, tracker, signal, () => {
+      removeLostListener()
+      leave?.()
+      endTurn?.()
     })
   }
 
   /**
    * Attempts to acquire the lock without blocking.
    *
-   * The returned unlock function is idempotent and must be called to release the lock and its connection.
+   * The returned handle is idempotent and must be unlocked to release the lock and its connection.
+   * Aborting `options.signal` after acquisition unlocks it automatically.
+   * Its `onLost()` hook reports the loss of the lock-owning connection.
+   * With `options.retry`, unsuccessful attempts are repeated without holding a connection in between.
    *
-   * @returns an unlock function if successful, or `undefined` if the lock is not available.
+   * @returns a lock handle if successful, or `undefined` if the lock is not available.
    */
-  async tryLock(): Promise<(() => Promise<void>) | undefined> {
-    const { client, release } = await this.pool.getClient()
+  async tryLock({
+    retry,
+    signal,
+  }: RetryingTryLockOptions = {}): Promise<LockHandle | undefined> {
+    return await retryAttempt(
+      () => this.tryLockOnce(signal),
+      (handle) => handle !== undefined,
+      retry,
+      signal,
+    )
+  }
+
+  private async tryLockOnce(
+    signal: AbortSignal | undefined,
+  ): Promise<LockHandle | undefined> {
+    throwIfAborted(signal)
+    const pooled = await this.pool.getClient(this.acquireOptions({ signal }))
+    const { client, release } = pooled
+    // A manual lock does not open a nesting context of its own.
+    const tracker = this.track("tryLock", this.pool.nestingDepth() + 1)
 
+    let acquired: boolean
+    let leave: (() => void) | undefined
     try {
-      if (await this.tryToLock(client)) {
-        let unlockPromise: Promise<void> | undefined
-        return () => {
-          unlockPromise ??= (async () => {
-            try {
-              if (!(await this.unlock(client))) {
-                throw new Error(
-                  "Advisory lock is no longer held by its connection",
-                )
-              }
-            } finally {
-              release()
-            }
-          })()
-          return unlockPromise
-        }
-      } else {
-        release()
-        return undefined
+      leave = await this.enterHandle(pooled, undefined)
+      if (!leave) {
+        tracker.start()
+        tracker.contended()
       }
+      acquired =
+        leave !== undefined && (await this.tryToLock(client, signal, tracker))
     } catch (error) {
+      leave?.()
       release()
       throw error
     }
+    if (!acquired || !leave) {
+      leave?.()
+      release()
+      return undefined
+    }
+    return await this.createHandle(pooled, tracker, signal, leave)
+  }
+
+  /**
+   * Wraps a lock just acquired on `pooled` in a handle that owns the connection until unlocked.
+   *
+   * @param leave - Removes the in-process record of the lock once it is released.
+   */
+  private async createHandle(
+    pooled: NestingPoolClient,
+    tracker: LockTracker,
+    signal: AbortSignal | undefined,
+    leave: () => void,
+  ): Promise<LockHandle> {
+    const { client, monitor, release, run } = pooled
+    const acquiredAt = new Date()
+    const lostListeners = new Set<() => void>()
+    let fencing: SharedFencingToken | undefined
+    let unlockPromise: Promise<void> | undefined
+    const unlock = () => {
+      unlockPromise ??= (async () => {
+        signal?.removeEventListener("abort", onAbort)
+        for (const removeListener of lostListeners) removeListener()
+        fencing?.end()
+        try {
+          await tracker.release(async () => {
+            monitor.throwIfLost(this.reference)
+            if (!(await this.unlock(client))) {
+              throw new LockNotHeldError(this.name, this.namespaces)
+            }
+          })
+        } finally {
+          release()
+          leave()
+        }
+      })()
+      return unlockPromise
+    }
+    const onAbort = () => {
+      // Errors remain observable through explicit unlock calls.
+      unlock().catch(() => {})
+    }
+
+    try {
+      fencing = await this.shareFencingToken(client, pooled)
+    } catch (error) {
+      await unlock()
+      throw error
+    }
+    if (signal?.aborted) {
+      await unlock()
+      throw signal.reason
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+
+    const fencingToken = fencing?.token
+    const handle = Object.assign(unlock, {
+      acquiredAt,
+      fencingToken,
+      isHeld: async () => {
+        if (unlockPromise || monitor.lost) return false
+        return await this.isHeldBy(client)
+      },
+      namespaces: this.namespaces,
+      onLost: (listener: (error: Error) => void) => {
+        if (unlockPromise) return () => {}
+        const removeListener = monitor.onLost(listener, this.reference)
+        lostListeners.add(removeListener)
+        return () => {
+          lostListeners.delete(removeListener)
+          removeListener()
+        }
+      },
+      run: async <T>(fn: (context: LockContext) => PromiseLike<T>) => {
+        if (unlockPromise)
+          throw new LockNotHeldError(this.name, this.namespaces)
+        monitor.throwIfLost(this.reference)
+        return await run(
+          async () => await fn(createLockContext(monitor, fencingToken)),
+        )
+      },
+      unlock,
+      [Symbol.asyncDispose]: unlock,
+    })
+    // The `name` of a function is read-only, so it can only be redefined.
+    return Object.defineProperty(handle, "name", { value: this.name })
+  }
+
+  /**
+   * Acquires a transaction-level lock with the same key inside a postgres.js transaction.
+   *
+   * The lock is released when the transaction commits or rolls back.
+   * A timeout or abort rejects and leaves the transaction to be rolled back by the caller.
+   *
+   * @param tx - The transaction from `sql.begin()`.
+   * @throws {LockTimeoutError} if the lock is not acquired within the configured timeout.
+   */
+  async xactLock(
+    tx: TransactionSql,
+    options: WithLockOptions = {},
+  ): Promise<void> {
+    await this.awaitLock(
+      tx`
+        SELECT
+        FROM (SELECT ${this.xactLockCall(tx)}) AS control
+        OFFSET 1
+      `,
+      {
+        signal: options.signal,
+        timeout: options.timeout ?? this.defaults.timeout,
+      },
+      // Transaction-level locks cannot be released before the transaction ends.
+      async () => {},
+    )
+  }
+
+  /**
+   * Attempts to acquire a transaction-level lock with the same key without blocking.
+   *
+   * @param tx - The transaction from `sql.begin()`.
+   * @returns `true` if the lock is held until the transaction ends, or `false` if it is not available.
+   */
+  async tryXactLock(
+    tx: TransactionSql,
+    { signal }: TryLockOptions = {},
+  ): Promise<boolean> {
+    throwIfAborted(signal)
+    const result = await tx`
+      SELECT
+      FROM (SELECT ${this.tryXactLockCall(tx)} AS succeeded) AS control
+      -- Keep success rowless: postgres.js row transforms can throw after acquisition.
+      WHERE NOT succeeded
+    `
+    return result.count === 0
   }
 
   /**
    * Wraps a function to always acquire this mutex's lock before calling it.
    *
    * @param fn - The function to wrap
+   * @param options - Acquisition options applied to every call
    * @returns A wrapped function that acquires the lock before calling the original function
    */
   wrapWithLock<TArgs extends readonly unknown[], TReturn>(
     fn: (...args: TArgs) => PromiseLike<TReturn>,
+    options?: WithLockOptions,
   ): (...args: TArgs) => Promise<TReturn> {
-    return async (...args: TArgs) => this.withLock(() => fn(...args))
+    return async (...args: TArgs) => this.withLock(() => fn(...args), options)
+  }
+}
+
+/** Exposes the connection's loss signal, creating it only when the callback reads it. */
+export function createLockContext(
+  monitor: ConnectionMonitor,
+  fencingToken?: bigint,
+): LockContext {
+  return {
+    fencingToken,
+    get signal() {
+      return monitor.signal
+    },
   }
 }
 
 /** Creates a mutex bound to a logical name and namespace chain. */
 export function createAdvisoryMutex(
   pool: NestingPool,
-  name: string,
+  key: AdvisoryLockKey,
   namespaces: readonly string[] = [],
+  defaults: WithLockOptions = {},
+  mode: LockMode = "exclusive",
+  fencing?: FencingTokenStore,
 ): AdvisoryMutex {
-  return new PostgresAdvisoryMutex(pool, name, namespaces)
+  return new PostgresAdvisoryMutex(
+    pool,
+    key,
+    namespaces,
+    defaults,
+    mode,
+    fencing,
+  )
 }
@@ -64,6 +64,22 @@ describe("test NestingPool", () => {
       expect(result).toBe("success")
     })
 
+    it("should reuse the client within run until it settles", async () => {
+      const { client, release, run } = await nestingPool.getClient()
+
+      const result = await run(async () => {
+        release()
+        const nestedResult = await nestingPool.getClient()
+        expect(nestedResult.client).toBe(client)
+        expect(activeConnections).toBe(1)
+        nestedResult.release()
+        return "success"
+      })
+
+      expect(result).toBe("success")
+      expect(activeConnections).toBe(0)
+    })
+
     it("should ignore repeated release calls", async () => {
       const { release } = await nestingPool.getClient()
 
@@ -316,4 +332,56 @@ describe("test NestingPool", () => {
       expect(result2).toBe(12)
     })
   })
+
+  describe("holder sessions", () => {
+    it("should share sessions between top-level acquisitions until closed", async () => {
+      const sessionPool = new NestingPool(pool, undefined, {
+        holderSessions: 1,
+      })
+
+      const [first, second] = await Promise.all([
+        sessionPool.withClient(async (client) => {
+          await sleep(10)
+          return client
+        }),
+        sessionPool.getClient(),
+      ])
+      second.release()
+
+      expect(first).toBe(second.client)
+      expect(activeConnections).toBe(1)
+      expect(sessionPool.reservedConnections).toBe(1)
+
+      await sessionPool.close()
+      expect(activeConnections).toBe(0)
+    })
+
+    it("should exclude the locks of other owners of a session", async () => {
+      const sessionPool = new NestingPool(pool, undefined, {
+        holderSessions: 1,
+      })
+      const options = {
+        reentrantError: () => new Error("Reentrant"),
+        timeoutError: () => new Error("Timed out"),
+        wait: false,
+      }
+
+      const owner = await sessionPool.getClient()
+      const leave = await owner.enter(["a"], "session", options)
+      const other = await sessionPool.getClient()
+
+      expect(await other.enter(["a"], "session", options)).toBeUndefined()
+      const leaveNested = await owner.run(() =>
+        sessionPool.enterLocks(["a"], "session", options),
+      )
+      expect(leaveNested).toBeDefined()
+
+      leaveNested?.()
+      leave?.()
+      expect(await other.enter(["a"], "session", options)).toBeDefined()
+      owner.release()
+      other.release()
+      await sessionPool.close()
+    })
+  })
 })
@@ -1,27 +1,188 @@
 import { AsyncLocalStorage } from "node:async_hooks"
 
+import type { Tracer } from "@opentelemetry/api"
 import type { ReservedSql, Sql } from "postgres"
 
+import {
+  CloseFromLockContextError,
+  CloseTimeoutError,
+  lockLossError,
+  ManagerClosedError,
+  QueueTimeoutError,
+} from "./errors"
+import type { AdvisoryLockEvent, AdvisoryLockHooks } from "./hooks"
+import { callHook } from "./hooks"
+import type { AdvisoryLockMetricsOptions } from "./metrics"
+import { LockMetrics } from "./metrics"
+import { ConnectionMonitor } from "./monitor"
+import type { ReentrancyPolicy } from "./mutex"
+import type { TurnOptions } from "./waiters"
+import { ReservationLimit, WaiterQueues } from "./waiters"
+
 export type NestingPoolClient = {
   client: ReservedSql
+  /** Records locks held by this acquisition outside of any lock context, like `NestingPool.enterLocks()`. */
+  enter: (
+    ids: readonly string[],
+    policy: ReentrancyPolicy,
+    options: EnterLocksOptions,
+  ) => Promise<(() => void) | undefined>
+  /** Reports the loss of the connection and therefore of every lock it holds. */
+  monitor: ConnectionMonitor
+  /** Shares the fencing token of a lock acquired on this connection, like `NestingPool.shareFencingToken()`. */
+  shareFencingToken: (
+    id: string,
+    issue: () => Promise<bigint>,
+  ) => Promise<SharedFencingToken>
   /** Must be called to release this acquisition; calls after the first have no effect. */
   release: () => void
+  /** Runs `fn` in a nesting context of this connection, which stays reserved until `fn` settles. */
+  run: <T>(fn: () => Promise<T>) => Promise<T>
+}
+
+export type NestingPoolOptions = {
+  /** Milliseconds between the attempts of a blocking acquisition on a holder session, or of a semaphore waiting for a permit. */
+  holderPollInterval?: number
+  /** Holds every lock on one of up to this many long-lived sessions, instead of a connection reserved per top-level acquisition. */
+  holderSessions?: number
+  /** Lifecycle hooks reported by every lock using this pool. */
+  hooks?: AdvisoryLockHooks
+  /** Bounds the connections reserved by top-level acquisitions at once, queueing further acquisitions in memory. */
+  maxConcurrentAcquisitions?: number
+  /** Configures the metrics collected from every lock using this pool. */
+  metrics?: AdvisoryLockMetricsOptions
+  /** Milliseconds between liveness probes of each reserved connection; `0` disables probing. */
+  probeInterval?: number
+  /** Milliseconds a top-level acquisition may wait in the queue of `maxConcurrentAcquisitions`. */
+  queueTimeout?: number
+  /** Traces every lock using this pool. */
+  tracer?: Tracer
+}
+
+/**
+ * Options for reserving a connection.
+ */
+export type NestingPoolAcquireOptions = {
+  /**
+   * Whether the context opened for the connection counts towards `nestingDepth()`; defaults to `true`.
+   *
+   * A context that only shares its connection with the acquisitions run within it, like that of a semaphore, does not count.
+   */
+  counted?: boolean
+  /** The name of the lock being acquired, reported by the errors of the acquisition. */
+  lockName?: string
+  namespaces?: readonly string[]
+  /** Cancels the wait for a connection, whether under `maxConcurrentAcquisitions` or from the underlying pool. */
+  signal?: AbortSignal
+  /** When the acquisition started, from which `timeout` counts; defaults to now. */
+  startedAt?: number
+  /** Milliseconds the acquisition may wait, including for a free connection of the underlying pool. */
+  timeout?: number
+  /** Creates the error thrown when `timeout` elapses before a connection is reserved. */
+  timeoutError?: (timeout: number) => Error
+}
+
+export type NestingPoolCloseOptions = {
+  /** Stops active locks once `timeout` elapses instead of rejecting. */
+  force?: boolean
+  /** Milliseconds to wait for active locks; waits indefinitely by default. */
+  timeout?: number
+}
+
+export type NestingPoolCloseResult = {
+  /** The locks still active when the timeout elapsed, which `force` stopped. */
+  activeLocks: readonly AdvisoryLockEvent[]
+}
+
+/**
+ * The fencing token of a lock, shared by the acquisitions holding it on one connection.
+ */
+export type SharedFencingToken = {
+  /** Stops sharing the token; must be called before the acquisition releases the lock, and later calls have no effect. */
+  end: () => void
+  token: bigint
+}
+
+type FencingTokenShare = {
+  /** The acquisitions sharing the token that have not started releasing the lock. */
+  holders: number
+  token: Promise<bigint>
 }
 
 type Connection = {
   client: ReservedSql
+  /** The fencing token of each lock identity held on the connection by acquisitions that issued or shared one. */
+  fencingTokens: Map<string, FencingTokenShare>
+  /** Whether the connection stopped counting as active, which a forced close does before its owners release it. */
+  finished: boolean
+  /** The acquisitions holding each lock identity on the connection. */
+  holders: Map<string, Set<LockHolder>>
+  /** The top-level acquisitions of a holder session, each counted as active until released. */
+  leases: number
+  monitor: ConnectionMonitor
   references: number
+  /** Returns the client to the underlying pool; later calls do nothing. */
   release: () => void
+  /** Whether a forced close released the connection's locks and the client before its owners finished. */
+  revoked: boolean
+  /** Whether the connection is a holder session shared by top-level acquisitions. */
+  shared: boolean
 }
 
+/**
+ * A top-level acquisition and the acquisitions nested in it, which share its locks on the connection.
+ *
+ * A reserved connection has a single owner, while the owners of a holder session must exclude each other in-process.
+ */
+type LockOwner = object
+
 type ConnectionContext = {
   connection: Connection
   active: boolean
+  /** Whether the context counts towards `nestingDepth()`. */
+  counted: boolean
+  /** The lock handle whose `run()` opened the context, which then runs within the locks of the handle. */
+  handle: LockHandleRef | undefined
+  owner: LockOwner
   parent: ConnectionContext | undefined
 }
 
-type AcquiredConnection = {
+/** Identifies a lock handle, whose `run()` contexts run within the locks it holds. */
+type LockHandleRef = object
+
+type LockHolder = {
+  /** The lock context of a callback, or `undefined` for a lock handle. */
+  context: ConnectionContext | undefined
+  /** The lock handle holding the locks, or `undefined` for a lock context. */
+  handle: LockHandleRef | undefined
+  owner: LockOwner
+  released: Promise<void>
+  shared: boolean
+}
+
+/**
+ * Options for entering a lock context.
+ */
+export type EnterLocksOptions = {
+  /** Creates the error thrown by the `reject` policy. */
+  reentrantError: () => Error
+  /** Whether the locks are shared locks, which the owners of a holder session may hold together. */
+  shared?: boolean
+  signal?: AbortSignal
+  /** When the acquisition started, from which `timeout` counts; defaults to now. */
+  startedAt?: number
+  timeout?: number
+  timeoutError: (timeout: number) => Error
+  /** Whether the `exclusive` policy waits for other holders, instead of resolving to `undefined`. */
+  wait: boolean
+}
+
+type Lease = {
   connection: Connection
+  owner: LockOwner
+}
+
+type AcquiredConnection = Lease & {
   release: () => void
 }
 
@@ -30,23 +191,244 @@ type AcquiredConnection = {
  */
 export class NestingPool {
   private activeConnections = 0
-  private closePromise: Promise<void> | undefined
+  private closePromise: Promise<NestingPoolCloseResult> | undefined
   private closing = false
+  private readonly closingListeners = new Set<() => void>()
+  private readonly connections = new Set<Connection>()
+  private forceError: ManagerClosedError | undefined
+  private nextSession = 0
   private resolveIdle: (() => void) | undefined
+  /** Every holder session reserved until the pool closes, including lost ones. */
+  private readonly sessionConnections = new Set<Connection>()
+  /** The holder session of each slot, reserved on first use and replaced by the next lease after its loss. */
+  private readonly sessions: (Promise<Connection> | undefined)[] = []
+
+  /** The acquisitions between their start and their release or failure, reported by `LockTracker`. */
+  readonly activeLocks = new Set<AdvisoryLockEvent>()
+
+  /** Queues the blocking acquisitions of this process that would otherwise each hold a connection waiting for the same lock. */
+  readonly waiters = new WaiterQueues()
+
+  readonly hooks: AdvisoryLockHooks
+  private readonly holderSessions: number | undefined
+  readonly metrics: LockMetrics
+  /** Milliseconds between the attempts of a blocking acquisition on a holder session, or of a semaphore waiting for a permit. */
+  readonly pollInterval: number
+  private readonly probeInterval: number
+  private readonly queueTimeout: number | undefined
+  /** Bounds the connections reserved by top-level acquisitions, unless holder sessions already do. */
+  private readonly reservations: ReservationLimit | undefined
+  readonly tracer: Tracer | undefined
 
   constructor(
     private readonly pool: Sql,
-    private readonly closePool?: () => Promise<void>,
-  ) {}
+    /** Closes an owned pool; `force` is set after a forced close, whose connections may remain reserved. */
+    private readonly closePool?: (force: boolean) => Promise<void>,
+    {
+      holderPollInterval = 100,
+      holderSessions,
+      hooks = {},
+      maxConcurrentAcquisitions,
+      metrics,
+      probeInterval = 10_000,
+      queueTimeout,
+      tracer,
+    }: NestingPoolOptions = {},
+  ) {
+    if (
+      holderSessions !== undefined &&
+      !(Number.isInteger(holderSessions) && holderSessions >= 1)
+    ) {
+      throw new RangeError("Holder sessions must be a positive integer")
+    }
+    if (
+      maxConcurrentAcquisitions !== undefined &&
+      !(
+        Number.isInteger(maxConcurrentAcquisitions) &&
+        maxConcurrentAcquisitions >= 1
+      )
+    ) {
+      throw new RangeError(
+        "Maximum concurrent acquisitions must be a positive integer",
+      )
+    }
+    this.holderSessions = holderSessions
+    this.hooks = hooks
+    this.metrics = new LockMetrics(metrics)
+    this.pollInterval = holderPollInterval
+    this.probeInterval = probeInterval
+    this.queueTimeout = queueTimeout
+    this.reservations =
+      maxConcurrentAcquisitions === undefined || holderSessions !== undefined
+        ? undefined
+        : new ReservationLimit(maxConcurrentAcquisitions)
+    this.tracer = tracer
+  }
 
   connectionStorage = new AsyncLocalStorage<ConnectionContext>()
 
   /**
    * Creates a new client, or reuses an existing client from the AsyncLocalStorage.
    */
-  async getClient(): Promise<NestingPoolClient> {
-    const { connection, release } = await this.acquireConnection()
-    return { client: connection.client, release }
+  async getClient(
+    options: NestingPoolAcquireOptions = {},
+  ): Promise<NestingPoolClient> {
+    const { connection, owner, release } = await this.acquireConnection(options)
+    const handle: LockHandleRef = {}
+    return {
+      client: connection.client,
+      enter: (ids, policy, options) =>
+        this.enter(ids, policy, options, { connection, handle, owner }),
+      monitor: connection.monitor,
+      shareFencingToken: (id, issue) =>
+        shareFencingToken(connection, id, issue),
+      release,
+      run: async (fn) => {
+        connection.monitor.throwIfLost()
+        connection.references += 1
+        return await this.runInContext(
+          { connection, owner },
+          this.createRelease(connection),
+          fn,
+          { handle },
+        )
+      },
+    }
+  }
+
+  /** Whether locks are held on shared holder sessions, where blocking acquisitions must poll. */
+  get multiplexed(): boolean {
+    return this.holderSessions !== undefined
+  }
+
+  /** Counts the connections currently reserved from the underlying pool. */
+  get reservedConnections(): number {
+    if (!this.multiplexed)
+      return this.activeConnections - this.queuedAcquisitions
+    let count = 0
+    for (const { monitor, revoked } of this.sessionConnections) {
+      if (!monitor.lost || revoked) count += 1
+    }
+    return count
+  }
+
+  /** Counts the top-level acquisitions waiting for a connection under `maxConcurrentAcquisitions`. */
+  get queuedAcquisitions(): number {
+    return this.reservations?.queued ?? 0
+  }
+
+  /** Counts the active lock callbacks enclosing the current async context. */
+  nestingDepth(): number {
+    let depth = 0
+    for (
+      let context = this.connectionStorage.getStore();
+      context;
+      context = context.parent
+    ) {
+      if (context.active && context.counted) depth += 1
+    }
+    return depth
+  }
+
+  /**
+   * Records the locks identified by `ids` as held by the current lock context, applying `policy` to other holders on its connection.
+   *
+   * `exclusive` waits for holders other than enclosing contexts, and `reject` throws if any context on the connection holds one of them.
+   * On a holder session, the locks of other owners are always waited for, unless both hold them shared.
+   *
+   * @returns a function removing the record, or `undefined` if the acquisition would wait without `options.wait`.
+   */
+  enterLocks(
+    ids: readonly string[],
+    policy: ReentrancyPolicy,
+    options: EnterLocksOptions,
+  ): Promise<(() => void) | undefined> {
+    return this.enter(ids, policy, options)
+  }
+
+  /** Records the locks of the current lock context, or of a lock handle acquired on `lease`. */
+  private async enter(
+    ids: readonly string[],
+    policy: ReentrancyPolicy,
+    options: EnterLocksOptions,
+    lease?: Lease & { handle: LockHandleRef },
+  ): Promise<(() => void) | undefined> {
+    const context = this.activeConnectionContext()
+    const { connection, owner } = lease ?? context ?? {}
+    if (!connection || !owner) return () => {}
+    const { holders } = connection
+    const { shared = false, timeout } = options
+    const deadline =
+      timeout === undefined || timeout === Number.POSITIVE_INFINITY
+        ? undefined
+        : (options.startedAt ?? Date.now()) + timeout
+
+    for (;;) {
+      const current = ids.flatMap((id) => [...(holders.get(id) ?? [])])
+      // PostgreSQL grants a lock held by the session again, so other owners of a holder session are excluded here.
+      const contended = current.filter(
+        (holder) => holder.owner !== owner && !(holder.shared && shared),
+      )
+      // A lock handle counts as nested only within its `run()`, like a callback within its lock context.
+      const nested = current.filter(
+        (holder) =>
+          holder.owner === owner &&
+          (holder.context !== undefined || runsWithin(holder, context)),
+      )
+      if (policy === "reject" && nested.length > 0) {
+        throw options.reentrantError()
+      }
+      const blocking =
+        policy === "exclusive"
+          ? [
+              ...contended,
+              ...nested.filter((holder) => !runsWithin(holder, context)),
+            ]
+          : contended
+      if (blocking.length === 0) break
+      if (!options.wait) return undefined
+      await waitForRelease(blocking, deadline, options)
+    }
+
+    let release!: () => void
+    const holder: LockHolder = {
+      context: lease ? undefined : context,
+      handle: lease?.handle,
+      owner,
+      released: new Promise((resolve) => {
+        release = resolve
+      }),
+      shared,
+    }
+    for (const id of ids) {
+      const set = holders.get(id) ?? new Set()
+      set.add(holder)
+      holders.set(id, set)
+    }
+    return () => {
+      for (const id of ids) {
+        const set = holders.get(id)
+        set?.delete(holder)
+        if (set?.size === 0) holders.delete(id)
+      }
+      release()
+    }
+  }
+
+  /**
+   * Issues the fencing token of a lock just acquired in the current lock context, unless acquisitions on its connection still hold the lock with a token, which is then shared.
+   *
+   * The lock stayed held on the session since that token was issued, so no other holder received a newer one.
+   */
+  shareFencingToken(
+    id: string,
+    issue: () => Promise<bigint>,
+  ): Promise<SharedFencingToken> {
+    return shareFencingToken(
+      this.activeConnectionContext()?.connection,
+      id,
+      issue,
+    )
   }
 
   private activeConnectionContext(): ConnectionContext | undefined {
@@ -55,84 +437,307 @@ export class NestingPool {
     return context
   }
 
-  private async acquireConnection(): Promise<AcquiredConnection> {
+  private async acquireConnection(
+    options: NestingPoolAcquireOptions,
+  ): Promise<AcquiredConnection> {
     const context = this.activeConnectionContext()
     if (context) {
+      context.connection.monitor.throwIfLost(options)
       context.connection.references += 1
       return {
         connection: context.connection,
+        owner: context.owner,
         release: this.createRelease(context.connection),
       }
     }
 
     if (this.closing) {
-      throw new Error("Advisory lock manager is closing or closed")
+      const { lockName, namespaces } = options
+      throw new ManagerClosedError({ lockName, namespaces })
     }
 
     this.activeConnections += 1
+    let connection: Connection
     try {
-      const client = await this.pool.reserve()
-      const connection: Connection = {
-        client,
-        references: 1,
-        release: () => client.release(),
-      }
-      return {
-        connection,
-        release: this.createRelease(connection),
-      }
+      connection =
+        this.holderSessions === undefined
+          ? await this.reserveWithin(options)
+          : await this.leaseSession(this.holderSessions, options)
     } catch (error) {
       this.finishConnection()
+      throw this.forceError && error === this.forceError
+        ? lockLossError(this.forceError, options)
+        : error
+    }
+    connection.leases += 1
+    connection.references += 1
+    return {
+      connection,
+      owner: {},
+      release: this.createRelease(connection, true),
+    }
+  }
+
+  /** Reserves a connection once `maxConcurrentAcquisitions` admits it. */
+  private async reserveWithin(
+    options: NestingPoolAcquireOptions,
+  ): Promise<Connection> {
+    const free = await this.reservations?.take(this.queueWait(options))
+    try {
+      return await this.reserve(false, free, options)
+    } catch (error) {
+      free?.()
       throw error
     }
   }
 
-  private createRelease(connection: Connection) {
+  /**
+   * Bounds the wait in the queue of `maxConcurrentAcquisitions` by whichever expires first: `queueTimeout`, or the `timeout` of the acquisition.
+   */
+  private queueWait({
+    lockName,
+    namespaces,
+    signal,
+    startedAt,
+    timeout,
+    timeoutError,
+  }: NestingPoolAcquireOptions): TurnOptions {
+    const queuedAt = Date.now()
+    const queueWait: TurnOptions = {
+      signal,
+      startedAt: queuedAt,
+      timeout: this.queueTimeout,
+      timeoutError: (timeout) =>
+        new QueueTimeoutError(timeout, lockName, namespaces),
+    }
+    if (
+      timeout === undefined ||
+      timeout === Number.POSITIVE_INFINITY ||
+      !timeoutError
+    ) {
+      return queueWait
+    }
+
+    const acquisitionWait = {
+      signal,
+      startedAt: startedAt ?? queuedAt,
+      timeout,
+      timeoutError,
+    }
+    return this.queueTimeout === undefined ||
+      acquisitionWait.startedAt + timeout <= queuedAt + this.queueTimeout
+      ? acquisitionWait
+      : queueWait
+  }
+
+  /**
+   * @param free - Frees the reservation admitted by `maxConcurrentAcquisitions` once the connection is released.
+   * @param options - Bounds the wait for a free connection of the underlying pool.
+   */
+  private async reserve(
+    shared: boolean,
+    free?: () => void,
+    options: NestingPoolAcquireOptions = {},
+  ): Promise<Connection> {
+    const client = await awaitReservation(
+      this.pool.reserve(),
+      options,
+      (late) => late.release(),
+    )
+    if (this.forceError) {
+      client.release()
+      throw this.forceError
+    }
+    const monitor = new ConnectionMonitor(client, this.probeInterval)
+    let released = false
+    const connection: Connection = {
+      client,
+      fencingTokens: new Map(),
+      finished: false,
+      holders: new Map(),
+      leases: 0,
+      monitor,
+      references: 0,
+      release: () => {
+        if (released) return
+        released = true
+        monitor.stop()
+        // postgres.js already recycles a closed connection; releasing it would reopen a dead socket.
+        if (!monitor.lost || connection.revoked) client.release()
+        free?.()
+      },
+      revoked: false,
+      shared,
+    }
+    this.connections.add(connection)
+    if (shared) this.sessionConnections.add(connection)
+    monitor.start()
+    return connection
+  }
+
+  /** Picks the next of the holder sessions in turn, reserving it on first use or after its loss. */
+  private async leaseSession(
+    count: number,
+    options: NestingPoolAcquireOptions,
+  ): Promise<Connection> {
+    const index = this.nextSession
+    this.nextSession = (index + 1) % count
+    for (;;) {
+      let session = this.sessions[index]
+      if (!session) {
+        const reserved = this.reserve(true)
+        session = reserved
+        this.sessions[index] = reserved
+        // A failed reservation is retried by the next lease of the slot.
+        reserved.catch(() => {
+          if (this.sessions[index] === reserved)
+            this.sessions[index] = undefined
+        })
+      }
+      // The session stays in its slot for later leases when this one gives up waiting.
+      const connection = await awaitReservation(session, options, () => {})
+      if (!connection.monitor.lost) return connection
+      if (this.sessions[index] === session) this.sessions[index] = undefined
+    }
+  }
+
+  private createRelease(connection: Connection, lease = false) {
     let released = false
     return () => {
       if (released) return
       released = true
-      this.releaseConnection(connection)
+      this.releaseConnection(connection, lease)
     }
   }
 
-  private releaseConnection(connection: Connection) {
+  private releaseConnection(connection: Connection, lease: boolean) {
     connection.references -= 1
+    if (connection.shared) {
+      // Holder sessions remain reserved until the pool closes.
+      if (lease) {
+        connection.leases -= 1
+        if (!connection.finished) this.finishConnection()
+      }
+      return
+    }
     if (connection.references === 0) {
       try {
         connection.release()
       } finally {
-        this.finishConnection()
+        this.finish(connection)
       }
     }
   }
 
-  private finishConnection() {
-    this.activeConnections -= 1
+  private finish(connection: Connection) {
+    if (connection.finished) return
+    connection.finished = true
+    this.connections.delete(connection)
+    // A holder session counts as active once per lease.
+    this.finishConnection(connection.shared ? connection.leases : 1)
+  }
+
+  private finishConnection(count = 1) {
+    this.activeConnections -= count
     if (this.activeConnections === 0) {
       this.resolveIdle?.()
       this.resolveIdle = undefined
     }
   }
 
+  /**
+   * Calls `listener` once when closing starts, before waiting for active connections to be released.
+   *
+   * @returns a function that removes the listener.
+   */
+  onClosing(listener: () => void): () => void {
+    if (this.closing) {
+      queueMicrotask(listener)
+      return () => {}
+    }
+    this.closingListeners.add(listener)
+    return () => {
+      this.closingListeners.delete(listener)
+    }
+  }
+
   /**
    * Stops new acquisitions and closes the pool after active connections are released.
+   *
+   * Once `timeout` elapses, rejects with `CloseTimeoutError`, or with `force`, releases the locks of every active connection and closes the pool.
    */
-  close(): Promise<void> {
+  close({
+    force = false,
+    timeout,
+  }: NestingPoolCloseOptions = {}): Promise<NestingPoolCloseResult> {
     if (this.activeConnectionContext()) {
-      return Promise.reject(
-        new Error(
-          "Cannot close advisory lock manager from an active lock context",
-        ),
-      )
+      return Promise.reject(new CloseFromLockContextError())
     }
 
     this.closePromise ??= this.closeWhenIdle()
-    return this.closePromise
+    if (timeout === undefined || timeout === Number.POSITIVE_INFINITY) {
+      return this.closePromise
+    }
+    return this.closeWithin(this.closePromise, timeout, force)
+  }
+
+  private async closeWithin(
+    closing: Promise<NestingPoolCloseResult>,
+    timeout: number,
+    force: boolean,
+  ): Promise<NestingPoolCloseResult> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const elapsed = new Promise<undefined>((resolve) => {
+      timer = setTimeout(() => resolve(undefined), Math.max(timeout, 0))
+    })
+    try {
+      const result = await Promise.race([closing, elapsed])
+      if (result) return result
+    } finally {
+      clearTimeout(timer)
+    }
+
+    const activeLocks = [...this.activeLocks]
+    if (!force) throw new CloseTimeoutError(activeLocks, timeout)
+
+    const error = this.forceError ?? new ManagerClosedError({ forced: true })
+    this.forceError = error
+    this.reservations?.cancelAll(error)
+    await Promise.all(
+      [...this.connections].map((connection) => this.revoke(connection, error)),
+    )
+    await closing
+    return { activeLocks }
+  }
+
+  /**
+   * Reports `error` as the loss of an active connection and releases all of its locks and the connection itself, without waiting for its owners.
+   *
+   * Owners see a lost lock, and their own release of the connection does nothing.
+   */
+  private async revoke(connection: Connection, error: Error) {
+    const { client, monitor } = connection
+    if (!monitor.lost) {
+      connection.revoked = true
+      // Aborts lock callbacks, calls onLost() listeners, and cancels blocked acquisitions.
+      monitor.revoke(error)
+      try {
+        await client`
+          SELECT FROM (SELECT pg_advisory_unlock_all()) AS unlocked
+        `
+      } catch {
+        // A connection that fails here is closed, which releases its locks too.
+      }
+      // Manual locks may never be unlocked, so their connections would stay reserved from a pool the manager does not own.
+      connection.release()
+    }
+    this.finish(connection)
   }
 
   private async closeWhenIdle() {
     this.closing = true
+    for (const listener of this.closingListeners) callHook(listener)
+    this.closingListeners.clear()
 
     if (this.activeConnections > 0) {
       await new Promise<void>((resolve) => {
@@ -140,7 +745,13 @@ export class NestingPool {
       })
     }
 
-    await this.closePool?.()
+    for (const connection of this.sessionConnections) connection.release()
+    this.sessionConnections.clear()
+    this.sessions.length = 0
+
+    await this.closePool?.(this.forceError !== undefined)
+    callHook(this.hooks.close)
+    return { activeLocks: [] }
   }
 
   /**
@@ -150,17 +761,41 @@ export class NestingPool {
    *
    * For nested lock calls, the client is reused from the AsyncLocalStorage.
    */
-  async withClient<T>(fn: (client: ReservedSql) => Promise<T>) {
-    const { connection, release } = await this.acquireConnection()
+  async withClient<T>(
+    fn: (client: ReservedSql, monitor: ConnectionMonitor) => Promise<T>,
+    options: NestingPoolAcquireOptions = {},
+  ) {
+    const { connection, owner, release } = await this.acquireConnection(options)
+    return this.runInContext(
+      { connection, owner },
+      release,
+      () => fn(connection.client, connection.monitor),
+      { counted: options.counted },
+    )
+  }
+
+  /** Makes the leased connection the one reused by nested acquisitions within `fn`, and releases it afterwards. */
+  private runInContext<T>(
+    { connection, owner }: Lease,
+    release: () => void,
+    fn: () => Promise<T>,
+    {
+      counted = true,
+      handle,
+    }: { counted?: boolean; handle?: LockHandleRef } = {},
+  ) {
     const context: ConnectionContext = {
       connection,
       active: true,
+      counted,
+      handle,
+      owner,
       parent: this.connectionStorage.getStore(),
     }
 
     return this.connectionStorage.run(context, async () => {
       try {
-        return await fn(connection.client)
+        return await fn()
       } finally {
         context.active = false
         release()
@@ -168,3 +803,148 @@ export class NestingPool {
     })
   }
 }
+
+/**
+ * Waits for a connection being reserved until the `timeout` of the acquisition elapses or its `signal` aborts.
+ *
+ * postgres.js cannot withdraw a pending reservation, so a connection arriving after the acquisition gave up is passed to `discard`.
+ */
+function awaitReservation<T>(
+  reserving: Promise<T>,
+  {
+    signal,
+    startedAt = Date.now(),
+    timeout,
+    timeoutError,
+  }: NestingPoolAcquireOptions,
+  discard: (late: T) => void,
+): Promise<T> {
+  const expires =
+    timeout !== undefined &&
+    timeout !== Number.POSITIVE_INFINITY &&
+    timeoutError !== undefined
+  if (!expires && !signal) return reserving
+
+  return new Promise<T>((resolve, reject) => {
+    let abandoned = false
+    const cleanup = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener("abort", onAbort)
+    }
+    const abandon = (error: unknown) => {
+      abandoned = true
+      cleanup()
+      reject(error)
+    }
+    const onAbort = () => abandon(signal?.reason)
+    const timer = expires
+      ? setTimeout(
+          () => abandon(timeoutError(timeout)),
+          Math.max(startedAt + timeout - Date.now(), 0),
+        )
+      : undefined
+    if (signal?.aborted) onAbort()
+    else signal?.addEventListener("abort", onAbort)
+
+    reserving.then(
+      (value) => {
+        if (abandoned) {
+          discard(value)
+          return
+        }
+        cleanup()
+        resolve(value)
+      },
+      (error: unknown) => {
+        cleanup()
+        reject(error)
+      },
+    )
+  })
+}
+
+/** Shares the fencing token of the lock identified by `id` among its holders on `connection`, issuing it for the first one. */
+async function shareFencingToken(
+  connection: Connection | undefined,
+  id: string,
+  issue: () => Promise<bigint>,
+): Promise<SharedFencingToken> {
+  if (!connection) return { end: () => {}, token: await issue() }
+
+  const { fencingTokens } = connection
+  const share = fencingTokens.get(id) ?? { holders: 0, token: issue() }
+  fencingTokens.set(id, share)
+  share.holders += 1
+
+  let ended = false
+  const end = () => {
+    if (ended) return
+    ended = true
+    share.holders -= 1
+    if (share.holders === 0 && fencingTokens.get(id) === share) {
+      fencingTokens.delete(id)
+    }
+  }
+  try {
+    return { end, token: await share.token }
+  } catch (error) {
+    // A failed token must not be shared with later acquisitions.
+    if (fencingTokens.get(id) === share) fencingTokens.delete(id)
+    end()
+    throw error
+  }
+}
+
+/** Whether `context` is the lock context of `holder`, or runs within it or within `run()` of its lock handle. */
+function runsWithin(
+  holder: LockHolder,
+  context: ConnectionContext | undefined,
+) {
+  for (
+    let current: ConnectionContext | undefined = context;
+    current;
+    current = current.parent
+  ) {
+    if (current === holder.context) return true
+    if (holder.handle !== undefined && current.handle === holder.handle)
+      return true
+  }
+  return false
+}
+
+/** Waits for any of `holders` to release, rejecting on abort or once `deadline` passes. */
+function waitForRelease(
+  holders: readonly LockHolder[],
+  deadline: number | undefined,
+  { signal, timeout, timeoutError }: EnterLocksOptions,
+) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const cleanup = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener("abort", onAbort)
+    }
+    const onAbort = () => {
+      cleanup()
+      reject(signal?.reason)
+    }
+    const timer =
+      deadline === undefined
+        ? undefined
+        : setTimeout(
+            () => {
+              cleanup()
+              reject(timeoutError(timeout ?? 0))
+            },
+            Math.max(deadline - Date.now(), 0),
+          )
+    signal?.addEventListener("abort", onAbort)
+    void Promise.race(holders.map((holder) => holder.released)).then(() => {
+      cleanup()
+      resolve()
+    })
+  })
+}
@@ -0,0 +1,86 @@
+/**
+ * Repeats an unsuccessful non-blocking attempt after a delay.
+ */
+export interface RetryOptions {
+  /** Maximum number of attempts, including the first; defaults to 3. */
+  attempts?: number
+  /**
+   * How delays grow between attempts; defaults to `"jittered"`.
+   *
+   * `"fixed"` waits `delay` each time, `"exponential"` doubles it after each attempt, and `"jittered"` waits a random fraction of the exponential delay to spread out competing instances.
+   */
+  backoff?: "exponential" | "fixed" | "jittered"
+  /** Milliseconds before the first retry; defaults to 100. */
+  delay?: number
+  /** Upper bound in milliseconds of each delay; defaults to 5 seconds. */
+  maxDelay?: number
+  /** Milliseconds after the first attempt by which the last attempt starts; defaults to no limit. */
+  maxWait?: number
+}
+
+/**
+ * Calls `attempt` until `succeeded` accepts its result, the attempts or the wait are exhausted, or `signal` aborts.
+ *
+ * @returns the result of the last attempt.
+ */
+export async function retryAttempt<T>(
+  attempt: () => Promise<T>,
+  succeeded: (result: T) => boolean,
+  options: RetryOptions | undefined,
+  signal: AbortSignal | undefined,
+): Promise<T> {
+  if (!options) return await attempt()
+
+  const {
+    attempts = 3,
+    backoff = "jittered",
+    delay = 100,
+    maxDelay = 5000,
+    maxWait = Number.POSITIVE_INFINITY,
+  } = options
+  if (!(attempts >= 1)) {
+    throw new RangeError("Retry attempts must be at least 1")
+  }
+  const deadline = Date.now() + maxWait
+
+  for (let count = 1; ; count += 1) {
+    const result = await attempt()
+    const remaining = deadline - Date.now()
+    if (succeeded(result) || count >= attempts || remaining <= 0) {
+      return result
+    }
+    await sleep(
+      Math.min(backoffDelay(backoff, delay, maxDelay, count), remaining),
+      signal,
+    )
+  }
+}
+
+function backoffDelay(
+  backoff: NonNullable<RetryOptions["backoff"]>,
+  delay: number,
+  maxDelay: number,
+  count: number,
+) {
+  if (backoff === "fixed") return Math.min(delay, maxDelay)
+  const exponential = Math.min(delay * 2 ** (count - 1), maxDelay)
+  return backoff === "jittered" ? Math.random() * exponential : exponential
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
@@ -0,0 +1,122 @@
+import type { AdvisoryLockKey } from "./key"
+import type {
+  AdvisoryMutex,
+  LockContext,
+  LockHandle,
+  TryLockOptions,
+  TryWithLockResult,
+  WithLockOptions,
+} from "./mutex"
+import { createAdvisoryMutex } from "./mutex"
+import type { NestingPool } from "./pool"
+
+/**
+ * A reader/writer mutex bound to one logical advisory lock name and its namespaces.
+ *
+ * Read locks are shared with other readers; write locks are exclusive and use the same key as `withLock()`.
+ */
+export interface AdvisoryRwMutex {
+  tryReadLock(options?: TryLockOptions): Promise<LockHandle | undefined>
+  tryWithReadLock<T>(
+    fn: (context: LockContext) => PromiseLike<T>,
+    options?: TryLockOptions,
+  ): Promise<TryWithLockResult<T>>
+  tryWithWriteLock<T>(
+    fn: (context: LockContext) => PromiseLike<T>,
+    options?: TryLockOptions,
+  ): Promise<TryWithLockResult<T>>
+  tryWriteLock(options?: TryLockOptions): Promise<LockHandle | undefined>
+  withReadLock<T>(
+    fn: (context: LockContext) => PromiseLike<T>,
+    options?: WithLockOptions,
+  ): Promise<T>
+  withWriteLock<T>(
+    fn: (context: LockContext) => PromiseLike<T>,
+    options?: WithLockOptions,
+  ): Promise<T>
+}
+
+class PostgresAdvisoryRwMutex implements AdvisoryRwMutex {
+  private readonly reader: AdvisoryMutex
+  private readonly writer: AdvisoryMutex
+
+  constructor(
+    pool: NestingPool,
+    key: AdvisoryLockKey,
+    namespaces: readonly string[],
+    defaults: WithLockOptions,
+  ) {
+    this.reader = createAdvisoryMutex(pool, key, namespaces, defaults, "shared")
+    this.writer = createAdvisoryMutex(pool, key, namespaces, defaults)
+  }
+
+  /**
+   * Attempts to acquire a shared lock without blocking.
+   *
+   * @returns a lock handle if successful, or `undefined` if a writer holds the lock.
+   */
+  tryReadLock(options?: TryLockOptions) {
+    return this.reader.tryLock(options)
+  }
+
+  /**
+   * Attempts to acquire a shared lock without blocking and execute the provided function if successful.
+   */
+  tryWithReadLock<T>(
+    fn: (context: LockContext) => PromiseLike<T>,
+    options?: TryLockOptions,
+  ) {
+    return this.reader.tryWithLock(fn, options)
+  }
+
+  /**
+   * Attempts to acquire an exclusive lock without blocking and execute the provided function if successful.
+   */
+  tryWithWriteLock<T>(
+    fn: (context: LockContext) => PromiseLike<T>,
+    options?: TryLockOptions,
+  ) {
+    return this.writer.tryWithLock(fn, options)
+  }
+
+  /**
+   * Attempts to acquire an exclusive lock without blocking.
+   *
+   * @returns a lock handle if successful, or `undefined` if a reader or writer holds the lock.
+   */
+  tryWriteLock(options?: TryLockOptions) {
+    return this.writer.tryLock(options)
+  }
+
+  /**
+   * Acquires a shared lock and executes the provided function.
+   *
+   * Other readers may run concurrently; writers wait until every reader has finished.
+   */
+  withReadLock<T>(
+    fn: (context: LockContext) => PromiseLike<T>,
+    options?: WithLockOptions,
+  ) {
+    return this.reader.withLock(fn, options)
+  }
+
+  /**
+   * Acquires an exclusive lock and executes the provided function.
+   */
+  withWriteLock<T>(
+    fn: (context: LockContext) => PromiseLike<T>,
+    options?: WithLockOptions,
+  ) {
+    return this.writer.withLock(fn, options)
+  }
+}
+
+/** Creates a reader/writer mutex bound to a logical name and namespace chain. */
+export function createAdvisoryRwMutex(
+  pool: NestingPool,
+  key: AdvisoryLockKey,
+  namespaces: readonly string[] = [],
+  defaults: WithLockOptions = {},
+): AdvisoryRwMutex {
+  return new PostgresAdvisoryRwMutex(pool, key, namespaces, defaults)
+}
@@ -0,0 +1,240 @@
+import type { ReservedSql } from "postgres"
+
+import { CronExpression } from "./cron"
+import { callHook } from "./hooks"
+import type { AdvisoryLockKey, LockKey } from "./key"
+import { lockKeyValue, lockObjectSubId } from "./key"
+import type { AdvisoryMutex, LockContext } from "./mutex"
+import type { NestingPool } from "./pool"
+import { ManagedTable } from "./table"
+
+/**
+ * When a scheduled job fires: every `every` milliseconds since the epoch, or at each minute matching a UTC `cron` expression.
+ */
+export type ScheduleTiming =
+  | { cron: string; every?: never }
+  | { cron?: never; every: number }
+
+/**
+ * Options for a scheduled job.
+ */
+export type ScheduleOptions = ScheduleTiming & {
+  /**
+   * Called with the error of a failed run, such as a database outage; without it, the error is logged with `console.error()`.
+   *
+   * Either way, the job keeps firing on later ticks.
+   */
+  onError?: (error: unknown) => void
+  /**
+   * Records each run's tick in the manager's `scheduleTable`, so a tick that another instance already ran is skipped.
+   *
+   * Without it, an instance whose clock or timer lags may run a tick again after the first run finished.
+   */
+  persistLastRun?: boolean
+}
+
+/**
+ * The lock context of a run, with the tick it runs for.
+ */
+export interface ScheduledRunContext extends LockContext {
+  /** The scheduled time of the tick, identical on every instance. */
+  readonly scheduledAt: Date
+}
+
+/**
+ * A job that fires on every instance and runs on the one that wins the tick's lock.
+ */
+export interface AdvisoryScheduledJob {
+  /** The next tick, or `undefined` once stopped. */
+  readonly nextRunAt: Date | undefined
+  /** Stops firing and resolves once a run in progress on this instance finishes. */
+  stop(): Promise<void>
+}
+
+/** `setTimeout()` fires immediately for larger delays. */
+const maxTimerDelay = 2 ** 31 - 1
+
+/**
+ * Records the last tick run per lock in a library-managed table.
+ */
+export class ScheduleRunStore {
+  private readonly table: ManagedTable
+
+  constructor(table: string) {
+    this.table = new ManagedTable(
+      table,
+      (client) => client`
+        CREATE TABLE IF NOT EXISTS ${client(table)} (
+          key bigint NOT NULL,
+          objsubid smallint NOT NULL,
+          last_run_at timestamptz NOT NULL,
+          PRIMARY KEY (key, objsubid)
+        )
+      `,
+    )
+  }
+
+  /**
+   * Records `scheduledAt` as the last run of the lock on `key` unless the same or a later tick already ran.
+   *
+   * @param objsubid - Tells a raw `bigint` key from an `(int4, int4)` pair packed into the same value, like `pg_locks` does.
+   */
+  async claim(
+    client: ReservedSql,
+    key: LockKey,
+    objsubid: number,
+    scheduledAt: Date,
+  ): Promise<boolean> {
+    await this.table.ensure(client)
+
+    const rows = await client`
+      INSERT INTO ${client(this.table.name)} AS runs (key, objsubid, last_run_at)
+      VALUES (${key}, ${objsubid}, ${scheduledAt})
+      ON CONFLICT (key, objsubid) DO UPDATE SET last_run_at = excluded.last_run_at
+      WHERE runs.last_run_at < excluded.last_run_at
+      RETURNING key
+    `
+    return rows.count > 0
+  }
+}
+
+/**
+ * Fires on aligned ticks, so that every instance computes the same ticks regardless of when it started.
+ *
+ * Each tick attempts `tryWithLock()` on a connection of its own; a run still in progress makes later ticks contend and skip.
+ */
+class PostgresScheduledJob implements AdvisoryScheduledJob {
+  private readonly cron: CronExpression | undefined
+  private nextTick: number | undefined
+  private readonly removeClosingListener: () => void
+  private readonly runs = new Set<Promise<void>>()
+  private timer: ReturnType<typeof setTimeout> | undefined
+
+  constructor(
+    private readonly pool: NestingPool,
+    private readonly mutex: AdvisoryMutex,
+    private readonly key: AdvisoryLockKey,
+    private readonly namespaces: readonly string[],
+    private readonly store: ScheduleRunStore | undefined,
+    private readonly fn: (context: ScheduledRunContext) => PromiseLike<void>,
+    private readonly options: ScheduleOptions,
+  ) {
+    if (options.cron !== undefined) {
+      this.cron = new CronExpression(options.cron)
+    } else if (!(Number.isSafeInteger(options.every) && options.every > 0)) {
+      throw new RangeError("Schedule interval must be a positive integer")
+    }
+
+    this.removeClosingListener = pool.onClosing(() => {
+      void this.stop()
+    })
+    this.schedule(Date.now())
+  }
+
+  get nextRunAt() {
+    return this.nextTick === undefined ? undefined : new Date(this.nextTick)
+  }
+
+  async stop(): Promise<void> {
+    clearTimeout(this.timer)
+    this.nextTick = undefined
+    this.removeClosingListener()
+    await Promise.all(this.runs)
+  }
+
+  private tickAfter(time: number) {
+    if (this.cron) return this.cron.next(time)
+    const every = this.options.every ?? 0
+    return (Math.floor(time / every) + 1) * every
+  }
+
+  private schedule(after: number) {
+    const tick = this.tickAfter(after)
+    this.nextTick = tick
+    this.wait(tick)
+  }
+
+  private wait(tick: number) {
+    this.timer = setTimeout(
+      () => {
+        // Ticks beyond the timer range wait in several steps.
+        if (Date.now() < tick) {
+          this.wait(tick)
+          return
+        }
+        this.schedule(tick)
+        const run = this.run(new Date(tick))
+        this.runs.add(run)
+        void run.finally(() => this.runs.delete(run))
+      },
+      Math.min(tick - Date.now(), maxTimerDelay),
+    )
+  }
+
+  private async run(scheduledAt: Date) {
+    const store = this.store
+    try {
+      // Run outside any enclosing lock callback, so each tick reserves its own connection.
+      await this.pool.connectionStorage.exit(() =>
+        this.mutex.tryWithLock(async (context) => {
+          if (store && !(await this.claim(store, scheduledAt))) return
+          await this.fn(createRunContext(context, scheduledAt))
+        }),
+      )
+    } catch (error) {
+      const { onError } = this.options
+      if (onError) {
+        callHook(onError, error)
+      } else {
+        // Rethrowing would end the process on every instance running the job, for example during a database outage.
+        console.error(error)
+      }
+    }
+  }
+
+  private async claim(store: ScheduleRunStore, scheduledAt: Date) {
+    // Reuses the connection of the enclosing tryWithLock() callback.
+    return await this.pool.withClient((client) =>
+      store.claim(
+        client,
+        lockKeyValue(client, this.key, this.namespaces),
+        lockObjectSubId(this.key),
+        scheduledAt,
+      ),
+    )
+  }
+}
+
+/** Adds the tick to a lock context without evaluating its lazy `signal`. */
+function createRunContext(
+  context: LockContext,
+  scheduledAt: Date,
+): ScheduledRunContext {
+  return {
+    fencingToken: context.fencingToken,
+    scheduledAt,
+    get signal() {
+      return context.signal
+    },
+  }
+}
+
+export function createAdvisoryScheduledJob(
+  pool: NestingPool,
+  mutex: AdvisoryMutex,
+  key: AdvisoryLockKey,
+  namespaces: readonly string[],
+  store: ScheduleRunStore | undefined,
+  fn: (context: ScheduledRunContext) => PromiseLike<void>,
+  options: ScheduleOptions,
+): AdvisoryScheduledJob {
+  return new PostgresScheduledJob(
+    pool,
+    mutex,
+    key,
+    namespaces,
+    store,
+    fn,
+    options,
+  )
+}
@@ -0,0 +1,185 @@
+import { pollCancellable, throwIfAborted } from "./cancel"
+import type { LockReference } from "./errors"
+import { LockTimeoutError } from "./errors"
+import type {
+  AdvisoryMutex,
+  LockContext,
+  TryLockOptions,
+  TryWithLockResult,
+  WithLockOptions,
+} from "./mutex"
+import { createAdvisoryMutex } from "./mutex"
+import type { NestingPool } from "./pool"
+
+/**
+ * A counting semaphore that admits up to a fixed number of concurrent holders across all connected instances.
+ */
+export interface AdvisorySemaphore {
+  readonly permits: number
+  tryWithPermit<T>(
+    fn: (context: LockContext) => PromiseLike<T>,
+    options?: TryLockOptions,
+  ): Promise<TryWithLockResult<T>>
+  withPermit<T>(
+    fn: (context: LockContext) => PromiseLike<T>,
+    options?: WithLockOptions,
+  ): Promise<T>
+}
+
+/** The namespace segment reserved for permits, so that they do not share keys with the locks of a namespace named after a semaphore. */
+const permitNamespace = "pg-advisory-lock:semaphore"
+
+/**
+ * Each permit is an exclusive lock on its index within the namespace chain extended by the reserved permit segment and the semaphore name.
+ *
+ * Permits use the `exclusive` reentrancy policy by default, so sibling callbacks on one connection also count against the limit.
+ */
+class PostgresAdvisorySemaphore implements AdvisorySemaphore {
+  private readonly defaults: WithLockOptions
+  private readonly name: string
+  private readonly namespaces: readonly string[]
+  private readonly pool: NestingPool
+  private readonly reference: LockReference
+  private readonly slots: readonly AdvisoryMutex[]
+
+  constructor(
+    pool: NestingPool,
+    name: string,
+    permits: number,
+    namespaces: readonly string[],
+    defaults: WithLockOptions,
+  ) {
+    if (!Number.isSafeInteger(permits) || permits < 1) {
+      throw new RangeError("Semaphore permits must be a positive integer")
+    }
+
+    this.defaults = defaults
+    this.name = name
+    this.namespaces = namespaces
+    this.pool = pool
+    this.reference = { lockName: name, namespaces }
+    // Callbacks sharing a connection would otherwise reacquire each other's permits on its session.
+    this.slots = Array.from({ length: permits }, (_, index) =>
+      createAdvisoryMutex(
+        pool,
+        String(index),
+        [...namespaces, permitNamespace, name],
+        {
+          ...defaults,
+          reentrancy: "exclusive",
+        },
+      ),
+    )
+  }
+
+  get permits() {
+    return this.slots.length
+  }
+
+  /** Returns every slot once, starting at a random one to spread contention. */
+  private shuffledSlots() {
+    const start = Math.floor(Math.random() * this.slots.length)
+    return [...this.slots.slice(start), ...this.slots.slice(0, start)]
+  }
+
+  private async tryEachSlot<T>(
+    fn: (context: LockContext) => PromiseLike<T>,
+    options: TryLockOptions,
+  ): Promise<TryWithLockResult<T>> {
+    for (const slot of this.shuffledSlots()) {
+      const result = await slot.tryWithLock(fn, options)
+      if (result.acquired) return result
+    }
+    return { acquired: false }
+  }
+
+  /**
+   * Acquires a permit and executes the provided function.
+   *
+   * When no permit is free, it tries every permit again every `holderPollInterval` milliseconds, so it takes whichever permit is released first.
+   *
+   * @throws {LockTimeoutError} if no permit is acquired within the configured timeout.
+   */
+  async withPermit<T>(
+    fn: (context: LockContext) => PromiseLike<T>,
+    options: WithLockOptions = {},
+  ): Promise<T> {
+    const { signal } = options
+    throwIfAborted(signal)
+    const startedAt = Date.now()
+    const timeout = options.timeout ?? this.defaults.timeout
+    // One connection serves every attempt through the nesting context.
+    return await this.pool.withClient(
+      async (_client, monitor) => {
+        let permitted: { result: T } | undefined
+        await pollCancellable(
+          async () => {
+            const result = await this.tryEachSlot(fn, {
+              reentrancy: options.reentrancy,
+              signal,
+            })
+            if (result.acquired) permitted = result
+            return result.acquired
+          },
+          {
+            interval: this.pool.pollInterval,
+            lock: this.reference,
+            monitor,
+            signal,
+            timeout:
+              timeout === undefined
+                ? undefined
+                : timeout - (Date.now() - startedAt),
+          },
+          () => new LockTimeoutError(this.name, this.namespaces, timeout ?? 0),
+        )
+        // The polling only resolves once an attempt acquired a permit.
+        return (permitted as { result: T }).result
+      },
+      {
+        // Permits report the depth of the semaphore call, not of this context.
+        counted: false,
+        lockName: this.name,
+        namespaces: this.namespaces,
+        signal,
+        startedAt,
+        timeout,
+        timeoutError: (timeout) =>
+          new LockTimeoutError(this.name, this.namespaces, timeout),
+      },
+    )
+  }
+
+  /**
+   * Attempts to acquire any free permit without blocking and execute the provided function if successful.
+   */
+  async tryWithPermit<T>(
+    fn: (context: LockContext) => PromiseLike<T>,
+    options: TryLockOptions = {},
+  ): Promise<TryWithLockResult<T>> {
+    throwIfAborted(options.signal)
+    return await this.pool.withClient(() => this.tryEachSlot(fn, options), {
+      counted: false,
+      lockName: this.name,
+      namespaces: this.namespaces,
+      signal: options.signal,
+    })
+  }
+}
+
+/** Creates a counting semaphore bound to a logical name and namespace chain. */
+export function createAdvisorySemaphore(
+  pool: NestingPool,
+  name: string,
+  permits: number,
+  namespaces: readonly string[] = [],
+  defaults: WithLockOptions = {},
+): AdvisorySemaphore {
+  return new PostgresAdvisorySemaphore(
+    pool,
+    name,
+    permits,
+    namespaces,
+    defaults,
+  )
+}
@@ -0,0 +1,76 @@
+import type { NestingPool } from "./pool"
+
+/**
+ * Options for installing the SQL helper functions.
+ */
+export interface AdvisoryLockSqlHelpersOptions {
+  /** The existing schema to create the functions in; defaults to `public`. */
+  schema?: string
+}
+
+/**
+ * The versioned name of the key derivation function.
+ *
+ * A change to the derivation would ship as a new version beside this one, so installed functions keep their meaning.
+ */
+const keyFunction = "advisory_lock_key_v1"
+
+/**
+ * Creates `advisory_lock_key_v1(name text, namespaces text[] DEFAULT '{}')` in `schema` unless it exists.
+ *
+ * The function returns the same key as a keyspace for `name` under the namespace chain `namespaces`, outermost first.
+ */
+export async function installSqlHelpers(
+  pool: NestingPool,
+  { schema = "public" }: AdvisoryLockSqlHelpersOptions,
+): Promise<void> {
+  await pool.withClient(async (client) => {
+    // Check first: replacing the function concurrently with other processes fails.
+    const missing = await client`
+      SELECT
+      FROM (
+        SELECT to_regprocedure(${`${quoteIdentifier(schema)}.${keyFunction}(text, text[])`}) AS oid
+      ) AS existing
+      WHERE oid IS NULL
+    `
+    if (missing.count === 0) return
+
+    try {
+      await client`
+        CREATE FUNCTION ${client(schema)}.${client(keyFunction)}(
+          lock_name text,
+          namespaces text[] DEFAULT '{}'
+        )
+        RETURNS bigint
+        LANGUAGE plpgsql
+        IMMUTABLE STRICT PARALLEL SAFE
+        AS $function$
+        DECLARE
+          seed bigint := 0;
+          namespace text;
+        BEGIN
+          FOREACH namespace IN ARRAY namespaces LOOP
+            seed := hashtextextended(namespace COLLATE "C", seed);
+          END LOOP;
+          RETURN hashtextextended(lock_name COLLATE "C", seed);
+        END
+        $function$
+      `
+    } catch (error) {
+      if (!isDuplicateFunction(error)) throw error
+    }
+  })
+}
+
+function quoteIdentifier(name: string) {
+  return `"${name.replace(/"/g, '""')}"`
+}
+
+/** Concurrent creations by other processes race on the catalog. */
+function isDuplicateFunction(error: unknown) {
+  return (
+    error instanceof Error &&
+    "code" in error &&
+    (error.code === "42723" || error.code === "23505")
+  )
+}
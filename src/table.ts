@@ -0,0 +1,53 @@
+import type { ReservedSql } from "postgres"
+
+/**
+ * A library-managed table, created on first use by any process sharing the database.
+ */
+export class ManagedTable {
+  private creation: Promise<void> | undefined
+
+  constructor(
+    readonly name: string,
+    private readonly create: (client: ReservedSql) => PromiseLike<unknown>,
+  ) {}
+
+  /** Creates the table unless it exists; a failed creation is retried by the next call. */
+  ensure(client: ReservedSql): Promise<void> {
+    this.creation ??= (async () => {
+      try {
+        // Check first: IF NOT EXISTS alone emits a notice that postgres.js logs by default.
+        const missing = await client`
+          SELECT
+          FROM (SELECT to_regclass(${quoteIdentifier(this.name)}) AS oid) AS existing
+          WHERE oid IS NULL
+        `
+        if (missing.count === 0) return
+
+        await this.create(client)
+      } catch (error) {
+        // Concurrent creations by other processes race on the catalog despite IF NOT EXISTS.
+        if (!isDuplicateTable(error)) {
+          this.creation = undefined
+          throw error
+        }
+      }
+    })()
+    return this.creation
+  }
+}
+
+/** Quotes a possibly schema-qualified name the way postgres.js quotes `sql(name)`. */
+function quoteIdentifier(name: string) {
+  return name
+    .split(".")
+    .map((part) => `"${part.replace(/"/g, '""')}"`)
+    .join(".")
+}
+
+function isDuplicateTable(error: unknown) {
+  return (
+    error instanceof Error &&
+    "code" in error &&
+    (error.code === "42P07" || error.code === "23505")
+  )
+}
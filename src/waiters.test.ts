@@ -0,0 +1,82 @@
+import { describe, expect, it } from "bun:test"
+
+import { ReservationLimit, WaiterQueues } from "./waiters"
+
+const timeoutError = (timeout: number) => new Error(`Timed out: ${timeout}`)
+
+describe("WaiterQueues", () => {
+  it("grants turns in arrival order", async () => {
+    const waiters = new WaiterQueues()
+    const order: string[] = []
+    const endFirst = await waiters.take("a", {
+      startedAt: Date.now(),
+      timeoutError,
+    })
+
+    const second = waiters.take("a", { startedAt: Date.now(), timeoutError })
+    const third = waiters.take("a", { startedAt: Date.now(), timeoutError })
+    void second.then(() => order.push("second"))
+    void third.then(() => order.push("third"))
+    const other = await waiters.take("b", {
+      startedAt: Date.now(),
+      timeoutError,
+    })
+    other()
+
+    endFirst()
+    endFirst()
+    ;(await second)()
+    ;(await third)()
+
+    expect(order).toEqual(["second", "third"])
+    // The queue is empty again, so the next turn is immediate.
+    ;(await waiters.take("a", { startedAt: Date.now(), timeoutError }))()
+  })
+
+  it("removes timed out and aborted waiters from the queue", async () => {
+    const waiters = new WaiterQueues()
+    const end = await waiters.take("a", { startedAt: Date.now(), timeoutError })
+    const controller = new AbortController()
+
+    const aborted = waiters.take("a", {
+      signal: controller.signal,
+      startedAt: Date.now(),
+      timeoutError,
+    })
+    const timedOut = waiters.take("a", {
+      startedAt: Date.now(),
+      timeout: 10,
+      timeoutError,
+    })
+    const last = waiters.take("a", { startedAt: Date.now(), timeoutError })
+
+    controller.abort(new Error("Aborted"))
+    await expect(aborted).rejects.toThrow("Aborted")
+    await expect(timedOut).rejects.toThrow("Timed out: 10")
+
+    end()
+    ;(await last)()
+  })
+})
+
+describe("ReservationLimit", () => {
+  it("admits reservations up to the limit and queues the others", async () => {
+    const limit = new ReservationLimit(1)
+    const free = await limit.take({ startedAt: Date.now(), timeoutError })
+    const next = limit.take({ startedAt: Date.now(), timeoutError })
+    const cancelled = limit.take({ startedAt: Date.now(), timeoutError })
+    expect(limit.queued).toBe(2)
+
+    free()
+    free()
+    const freeNext = await next
+    expect(limit.queued).toBe(1)
+
+    limit.cancelAll(new Error("Closed"))
+    await expect(cancelled).rejects.toThrow("Closed")
+    freeNext()
+    expect(limit.queued).toBe(0)
+    // The freed reservation is available again.
+    ;(await limit.take({ startedAt: Date.now(), timeoutError }))()
+  })
+})
@@ -0,0 +1,136 @@
+/**
+ * Options for waiting for a turn.
+ */
+export type TurnOptions = {
+  signal?: AbortSignal
+  /** When the acquisition started, from which `timeout` counts. */
+  startedAt: number
+  timeout?: number
+  timeoutError: (timeout: number) => Error
+}
+
+type Waiter = {
+  cancel: (error: unknown) => void
+  grant: () => void
+}
+
+/**
+ * Coalesces the blocking acquisitions of one process, so that only one per lock at a time occupies a connection.
+ *
+ * The others wait in memory and take their turns in arrival order, each after the previous one released the lock.
+ */
+export class WaiterQueues {
+  /** The waiters behind the current turn of each lock identity; a lock without a turn in progress has no entry. */
+  private readonly queues = new Map<string, Waiter[]>()
+
+  /**
+   * Waits until no other local acquisition of `id` holds the turn.
+   *
+   * @returns an idempotent function ending the turn.
+   */
+  async take(id: string, options: TurnOptions): Promise<() => void> {
+    if (options.signal?.aborted) throw options.signal.reason
+
+    const queue = this.queues.get(id)
+    if (!queue) {
+      this.queues.set(id, [])
+    } else {
+      await enqueue(queue, options)
+    }
+    return this.endTurn(id)
+  }
+
+  private endTurn(id: string) {
+    let ended = false
+    return () => {
+      if (ended) return
+      ended = true
+      const next = this.queues.get(id)?.shift()
+      if (next) next.grant()
+      else this.queues.delete(id)
+    }
+  }
+}
+
+/**
+ * Bounds the connections reserved by top-level acquisitions at once.
+ *
+ * Further reservations wait in memory and take the freed connections in arrival order.
+ */
+export class ReservationLimit {
+  private readonly queue: Waiter[] = []
+  private reserved = 0
+
+  constructor(private readonly max: number) {}
+
+  /** Counts the reservations waiting for a free connection. */
+  get queued(): number {
+    return this.queue.length
+  }
+
+  /**
+   * Waits until fewer than the maximum connections are reserved.
+   *
+   * @returns an idempotent function freeing the reservation.
+   */
+  async take(options: TurnOptions): Promise<() => void> {
+    if (options.signal?.aborted) throw options.signal.reason
+
+    if (this.reserved < this.max) {
+      this.reserved += 1
+    } else {
+      // A freed reservation passes to the next waiter without being counted again.
+      await enqueue(this.queue, options)
+    }
+
+    let freed = false
+    return () => {
+      if (freed) return
+      freed = true
+      const next = this.queue.shift()
+      if (next) next.grant()
+      else this.reserved -= 1
+    }
+  }
+
+  /** Rejects every waiting reservation with `error`. */
+  cancelAll(error: Error) {
+    for (const waiter of this.queue.splice(0)) waiter.cancel(error)
+  }
+}
+
+/** Waits in `queue` until granted, leaving it on timeout or abort. */
+function enqueue(
+  queue: Waiter[],
+  { signal, startedAt, timeout, timeoutError }: TurnOptions,
+) {
+  return new Promise<void>((resolve, reject) => {
+    const cancel = (error: unknown) => {
+      const index = queue.indexOf(waiter)
+      if (index !== -1) queue.splice(index, 1)
+      cleanup()
+      reject(error)
+    }
+    const onAbort = () => cancel(signal?.reason)
+    const timer =
+      timeout === undefined || timeout === Number.POSITIVE_INFINITY
+        ? undefined
+        : setTimeout(
+            () => cancel(timeoutError(timeout)),
+            Math.max(startedAt + timeout - Date.now(), 0),
+          )
+    const cleanup = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener("abort", onAbort)
+    }
+    const waiter: Waiter = {
+      cancel,
+      grant: () => {
+        cleanup()
+        resolve()
+      },
+    }
+    queue.push(waiter)
+    signal?.addEventListener("abort", onAbort)
+  })
+}
@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+
+import {
+  type AdvisoryLockManager,
+  createAdvisoryLockManager,
+} from "pg-advisory-lock"
+import postgres from "postgres"
+
+import { databaseUrl, sleep } from "#test-utils"
+
+describe("abort signal", () => {
+  let contenderPool: postgres.Sql
+  let contenderLocks: AdvisoryLockManager
+  let holderLocks: AdvisoryLockManager
+  let observerLocks: AdvisoryLockManager
+
+  beforeEach(() => {
+    contenderPool = postgres(databaseUrl, { max: 1 })
+    contenderLocks = createAdvisoryLockManager(contenderPool)
+    holderLocks = createAdvisoryLockManager(databaseUrl)
+    observerLocks = createAdvisoryLockManager(databaseUrl)
+  })
+
+  afterEach(async () => {
+    await Promise.all([
+      contenderLocks.close(),
+      holderLocks.close(),
+      observerLocks.close(),
+    ])
+    await contenderPool.end()
+  })
+
+  async function holdLock(name: string) {
+    const unlock = await holderLocks.tryLock(name)
+    if (!unlock) throw new Error("Expected to acquire the lock")
+    return unlock
+  }
+
+  it("rejects already aborted operations without running callbacks", async () => {
+    const controller = new AbortController()
+    const reason = new Error("Shutting down")
+    controller.abort(reason)
+    const { signal } = controller
+    let callbackCalled = false
+    const callback = async () => {
+      callbackCalled = true
+    }
+
+    await expect(
+      contenderLocks.withLock("abort-before", callback, { signal }),
+    ).rejects.toBe(reason)
+    await expect(
+      contenderLocks.tryWithLock("abort-before", callback, { signal }),
+    ).rejects.toBe(reason)
+    await expect(
+      contenderLocks.tryLock("abort-before", { signal }),
+    ).rejects.toBe(reason)
+
+    expect(callbackCalled).toBe(false)
+    expect(
+      await observerLocks.tryWithLock("abort-before", async () => "free"),
+    ).toEqual({ acquired: true, result: "free" })
+  })
+
+  it("cancels a blocked acquisition and releases its connection", async () => {
+    const unlock = await holdLock("abort-waiting")
+    const controller = new AbortController()
+    const reason = new Error("Request cancelled")
+
+    try {
+      const waiting = contenderLocks.withLock(
+        "abort-waiting",
+        async () => "unexpected",
+        { signal: controller.signal },
+      )
+      await sleep(50)
+      controller.abort(reason)
+
+      await expect(waiting).rejects.toBe(reason)
+
+      const blocked = await contenderPool`
+        SELECT FROM pg_stat_activity
+        WHERE wait_event_type = 'Lock' AND wait_event = 'advisory'
+      `
+      expect(blocked.count).toBe(0)
+    } finally {
+      await unlock()
+    }
+
+    expect(
+      await observerLocks.tryWithLock("abort-waiting", async () => "free"),
+    ).toEqual({ acquired: true, result: "free" })
+  })
+
+  it("cancels the wait for a connection of an exhausted pool", async () => {
+    // The only pooled connection holds this lock.
+    const handle = await contenderLocks.lock("abort-pool-held")
+    const controller = new AbortController()
+    const reason = new Error("Request cancelled")
+
+    try {
+      const waiting = contenderLocks
+        .withLock("abort-pool-free", async () => "unexpected", {
+          signal: controller.signal,
+        })
+        .catch((error: unknown) => error)
+      const trying = contenderLocks
+        .tryLock("abort-pool-free", { signal: controller.signal })
+        .catch((error: unknown) => error)
+      await sleep(50)
+      controller.abort(reason)
+
+      expect(await waiting).toBe(reason)
+      expect(await trying).toBe(reason)
+    } finally {
+      await handle.unlock()
+    }
+
+    // The connections reserved after the abort went back to the pool.
+    expect(
+      await contenderLocks.withLock("abort-pool-free", async () => "free"),
+    ).toBe("free")
+  })
+
+  it("does not affect a callback after acquisition", async () => {
+    const controller = new AbortController()
+
+    const result = await contenderLocks.withLock(
+      "abort-after-acquisition",
+      async () => {
+        controller.abort()
+        return "success"
+      },
+      { signal: controller.signal },
+    )
+
+    expect(result).toBe("success")
+    expect(
+      await observerLocks.tryWithLock(
+        "abort-after-acquisition",
+        async () => "free",
+      ),
+    ).toEqual({ acquired: true, result: "free" })
+  })
+
+  it("releases a manual lock when its signal aborts", async () => {
+    const controller = new AbortController()
+    const unlock = await contenderLocks.tryLock("abort-manual", {
+      signal: controller.signal,
+    })
+    expect(unlock).toBeFunction()
+
+    expect(
+      await observerLocks.tryWithLock("abort-manual", async () => "unexpected"),
+    ).toEqual({ acquired: false })
+
+    controller.abort()
+    await unlock?.()
+
+    expect(
+      await observerLocks.tryWithLock("abort-manual", async () => "free"),
+    ).toEqual({ acquired: true, result: "free" })
+  })
+})
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+
+import {
+  type AdvisoryLockManager,
+  CloseTimeoutError,
+  createAdvisoryLockManager,
+} from "pg-advisory-lock"
+import postgres from "postgres"
+
+import { databaseUrl, sleep } from "#test-utils"
+
+const forcedError = "Advisory lock manager was closed forcefully"
+
+describe("close with a timeout", () => {
+  let locks: AdvisoryLockManager
+  let otherLocks: AdvisoryLockManager
+
+  beforeEach(() => {
+    locks = createAdvisoryLockManager(databaseUrl)
+    otherLocks = createAdvisoryLockManager(databaseUrl)
+  })
+
+  afterEach(async () => {
+    await Promise.all([locks.close(), otherLocks.close()])
+  })
+
+  async function isFree(name: string) {
+    const result = await otherLocks.tryWithLock(name, async () => {})
+    return result.acquired
+  }
+
+  it("resolves without active locks when closed in time", async () => {
+    await locks.withLock("close-in-time", async () => {})
+
+    expect(await locks.close({ timeout: 100 })).toEqual({ activeLocks: [] })
+  })
+
+  it("rejects with the active locks once the timeout elapses", async () => {
+    const unlock = await locks.namespace("jobs").tryLock("close-forgotten")
+    if (!unlock) throw new Error("Expected to acquire the lock")
+
+    const error = await locks
+      .close({ timeout: 50 })
+      .catch((error: unknown) => error)
+
+    expect(error).toBeInstanceOf(CloseTimeoutError)
+    expect(error).toHaveProperty(
+      "message",
+      "Advisory lock manager did not close within 50ms; active locks: jobs/close-forgotten",
+    )
+    expect(error).toMatchObject({
+      activeLocks: [{ name: "close-forgotten", namespaces: ["jobs"] }],
+    })
+
+    await unlock()
+    await locks.close()
+  })
+
+  it("releases forgotten manual locks when forced", async () => {
+    const unlock = await locks.tryLock("close-force-manual")
+    if (!unlock) throw new Error("Expected to acquire the lock")
+    const lost = new Promise<Error>((resolve) => unlock.onLost(resolve))
+
+    const result = await locks.close({ force: true, timeout: 50 })
+
+    expect(result.activeLocks).toMatchObject([{ name: "close-force-manual" }])
+    expect((await lost).message).toBe(forcedError)
+    expect(await isFree("close-force-manual")).toBe(true)
+    await expect(unlock()).rejects.toThrow(forcedError)
+  })
+
+  it("returns the connections of forgotten manual locks to a caller's pool", async () => {
+    const sql = postgres(databaseUrl, { max: 2 })
+    try {
+      const callerLocks = createAdvisoryLockManager(sql)
+      await callerLocks.tryLock("close-force-caller-pool")
+      await callerLocks.close({ force: true, timeout: 50 })
+
+      // Both connections can be reserved again, although the handle was never unlocked.
+      const reserving = Promise.all([sql.reserve(), sql.reserve()])
+      const reserved = await Promise.race([
+        reserving,
+        sleep(1_000).then(() => []),
+      ])
+      expect(reserved).toHaveLength(2)
+      for (const client of reserved) client.release()
+      expect(await isFree("close-force-caller-pool")).toBe(true)
+    } finally {
+      await sql.end({ timeout: 0 })
+    }
+  })
+
+  it("aborts running callbacks when forced", async () => {
+    const started = Promise.withResolvers<void>()
+    const finish = Promise.withResolvers<void>()
+    let reason: unknown
+    const operation = locks.withLock(
+      "close-force-callback",
+      async (context) => {
+        started.resolve()
+        await finish.promise
+        reason = context.signal.reason
+      },
+    )
+    await started.promise
+
+    await locks.close({ force: true, timeout: 50 })
+    expect(await isFree("close-force-callback")).toBe(true)
+
+    finish.resolve()
+    await expect(operation).rejects.toThrow(forcedError)
+    expect(reason).toHaveProperty("message", forcedError)
+  })
+
+  it("cancels blocked acquisitions when forced", async () => {
+    const unlock = await otherLocks.tryLock("close-force-waiter")
+    if (!unlock) throw new Error("Expected to acquire the lock")
+
+    try {
+      const waiter = locks
+        .withLock("close-force-waiter", async () => {})
+        .catch((error: unknown) => error)
+      await sleep(30)
+
+      const result = await locks.close({ force: true, timeout: 50 })
+
+      expect(result.activeLocks).toMatchObject([{ name: "close-force-waiter" }])
+      expect(await waiter).toHaveProperty("message", forcedError)
+      expect(await waiter).toHaveProperty("lockName", "close-force-waiter")
+    } finally {
+      await unlock()
+    }
+  })
+})
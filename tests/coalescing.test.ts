@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+
+import {
+  type AdvisoryLockManager,
+  createAdvisoryLockManager,
+  LockTimeoutError,
+} from "pg-advisory-lock"
+
+import { databaseUrl, sleep } from "#test-utils"
+
+describe("waiter coalescing", () => {
+  let locks: AdvisoryLockManager
+  let otherLocks: AdvisoryLockManager
+
+  beforeEach(() => {
+    locks = createAdvisoryLockManager(databaseUrl)
+    otherLocks = createAdvisoryLockManager(databaseUrl)
+  })
+
+  afterEach(async () => {
+    await Promise.all([locks.close(), otherLocks.close()])
+  })
+
+  it("blocks one connection for all local waiters of a lock", async () => {
+    const holder = await otherLocks.lock("coalesce-hot")
+    const order: number[] = []
+    const waiters = Array.from({ length: 20 }, (_, index) =>
+      locks.withLock("coalesce-hot", async () => {
+        order.push(index)
+        expect(locks.metrics().reservedConnections).toBe(1)
+      }),
+    )
+
+    await sleep(50)
+    expect(locks.metrics()).toMatchObject({
+      reservedConnections: 1,
+      waiting: 20,
+    })
+
+    await holder.unlock()
+    await Promise.all(waiters)
+    expect(order).toEqual(Array.from({ length: 20 }, (_, index) => index))
+    expect(locks.metrics().reservedConnections).toBe(0)
+  })
+
+  it("times out and aborts waiters queued in memory", async () => {
+    const holder = await locks.lock("coalesce-cancel")
+    const controller = new AbortController()
+    const aborted = locks.withLock("coalesce-cancel", async () => {}, {
+      signal: controller.signal,
+    })
+    const timedOut = locks.withLock("coalesce-cancel", async () => {}, {
+      timeout: 30,
+    })
+    const last = locks.withLock("coalesce-cancel", async () => "last")
+
+    controller.abort(new Error("Aborted"))
+    await expect(aborted).rejects.toThrow("Aborted")
+    await expect(timedOut).rejects.toBeInstanceOf(LockTimeoutError)
+    expect(locks.metrics().reservedConnections).toBe(1)
+
+    await holder.unlock()
+    expect(await last).toBe("last")
+  })
+
+  it("hands the turn from one lock handle to the next", async () => {
+    const first = await locks.lock("coalesce-handles")
+    const second = locks.lock("coalesce-handles")
+
+    await sleep(30)
+    expect(locks.metrics().reservedConnections).toBe(1)
+
+    await first.unlock()
+    const handle = await second
+    expect(await handle.isHeld()).toBe(true)
+    await handle.unlock()
+  })
+
+  it("does not queue shared locks or nested calls", async () => {
+    const readers = locks.createRwMutex("coalesce-shared")
+    let concurrent = 0
+    let maxConcurrent = 0
+    const read = () =>
+      readers.withReadLock(async () => {
+        concurrent += 1
+        maxConcurrent = Math.max(maxConcurrent, concurrent)
+        await sleep(30)
+        concurrent -= 1
+      })
+
+    await Promise.all([read(), read()])
+    expect(maxConcurrent).toBe(2)
+
+    expect(
+      await locks.withLock("coalesce-nested", () =>
+        locks.withLock("coalesce-nested", async () => "nested"),
+      ),
+    ).toBe("nested")
+  })
+})
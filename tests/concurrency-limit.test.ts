@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+
+import {
+  type AdvisoryLockManager,
+  createAdvisoryLockManager,
+  LockTimeoutError,
+  QueueTimeoutError,
+} from "pg-advisory-lock"
+
+import { databaseUrl, sleep } from "#test-utils"
+
+describe("maxConcurrentAcquisitions", () => {
+  let locks: AdvisoryLockManager
+
+  beforeEach(() => {
+    locks = createAdvisoryLockManager(databaseUrl, {
+      maxConcurrentAcquisitions: 2,
+    })
+  })
+
+  afterEach(async () => {
+    await locks.close()
+  })
+
+  it("queues top-level acquisitions beyond the limit", async () => {
+    const order: string[] = []
+    const work = (name: string) =>
+      locks.withLock(name, async () => {
+        order.push(name)
+        await sleep(30)
+      })
+
+    const running = [work("limit-a"), work("limit-b"), work("limit-c")]
+    await sleep(10)
+    expect(locks.metrics()).toMatchObject({
+      queuedAcquisitions: 1,
+      reservedConnections: 2,
+    })
+
+    await Promise.all(running)
+    // The first two run side by side, and the queued one only once either finished.
+    expect(order.slice(0, 2).sort()).toEqual(["limit-a", "limit-b"])
+    expect(order[2]).toBe("limit-c")
+    expect(locks.metrics()).toMatchObject({
+      queuedAcquisitions: 0,
+      reservedConnections: 0,
+    })
+  })
+
+  it("does not queue nested acquisitions", async () => {
+    const single = createAdvisoryLockManager(databaseUrl, {
+      maxConcurrentAcquisitions: 1,
+    })
+    try {
+      expect(
+        await single.withLock("limit-outer", () =>
+          single.withLock("limit-inner", async () => "nested"),
+        ),
+      ).toBe("nested")
+    } finally {
+      await single.close()
+    }
+  })
+
+  it("rejects after the queue timeout or an abort", async () => {
+    const single = createAdvisoryLockManager(databaseUrl, {
+      maxConcurrentAcquisitions: 1,
+      queueTimeout: 30,
+    })
+    try {
+      const handle = await single.lock("limit-held")
+      const controller = new AbortController()
+      const aborted = single.tryLock("limit-aborted", {
+        signal: controller.signal,
+      })
+      const timedOut = single.withLock("limit-timed-out", async () => {})
+
+      controller.abort(new Error("Aborted"))
+      await expect(aborted).rejects.toThrow("Aborted")
+      await expect(timedOut).rejects.toBeInstanceOf(QueueTimeoutError)
+      expect(single.metrics().queuedAcquisitions).toBe(0)
+
+      await handle.unlock()
+      expect(
+        await single.tryWithLock("limit-timed-out", async () => "acquired"),
+      ).toEqual({ acquired: true, result: "acquired" })
+    } finally {
+      await single.close()
+    }
+  })
+
+  it("counts the time spent queued towards the acquisition timeout", async () => {
+    const single = createAdvisoryLockManager(databaseUrl, {
+      maxConcurrentAcquisitions: 1,
+      queueTimeout: 1_000,
+    })
+    try {
+      const handle = await single.lock("limit-deadline-held")
+      const startedAt = Date.now()
+      const error = await single
+        .withLock("limit-deadline", async () => {}, { timeout: 30 })
+        .catch((error: unknown) => error)
+
+      // The earlier acquisition timeout applies instead of `queueTimeout`.
+      expect(Date.now() - startedAt).toBeLessThan(500)
+      expect(error).toBeInstanceOf(LockTimeoutError)
+      expect(error).toMatchObject({ lockName: "limit-deadline", timeout: 30 })
+      expect(single.metrics().queuedAcquisitions).toBe(0)
+
+      await handle.unlock()
+    } finally {
+      await single.close()
+    }
+  })
+
+  it("rejects queued acquisitions on a forced close", async () => {
+    const single = createAdvisoryLockManager(databaseUrl, {
+      maxConcurrentAcquisitions: 1,
+    })
+    await single.lock("limit-forced")
+    const queued = single
+      .withLock("limit-queued", async () => {})
+      .catch((error: unknown) => error)
+    await sleep(10)
+
+    await single.close({ force: true, timeout: 10 })
+    expect(await queued).toHaveProperty(
+      "message",
+      "Advisory lock manager was closed forcefully",
+    )
+    expect(await queued).toHaveProperty("lockName", "limit-queued")
+  })
+
+  it("rejects an invalid limit", () => {
+    expect(() =>
+      createAdvisoryLockManager(databaseUrl, { maxConcurrentAcquisitions: 0 }),
+    ).toThrow(RangeError)
+  })
+})
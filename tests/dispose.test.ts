@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+
+import {
+  type AdvisoryLockManager,
+  createAdvisoryLockManager,
+} from "pg-advisory-lock"
+
+import { databaseUrl } from "#test-utils"
+
+describe("explicit resource management", () => {
+  let locks: AdvisoryLockManager
+  let otherLocks: AdvisoryLockManager
+
+  beforeEach(() => {
+    locks = createAdvisoryLockManager(databaseUrl)
+    otherLocks = createAdvisoryLockManager(databaseUrl)
+  })
+
+  afterEach(async () => {
+    await Promise.all([locks.close(), otherLocks.close()])
+  })
+
+  it("unlocks an acquired handle at the end of the scope", async () => {
+    {
+      await using handle = await locks.createMutex("dispose-acquire").acquire()
+      expect(await handle.isHeld()).toBe(true)
+      expect(await otherLocks.tryLock("dispose-acquire")).toBeUndefined()
+    }
+
+    expect(
+      await otherLocks.tryWithLock("dispose-acquire", async () => "acquired"),
+    ).toEqual({ acquired: true, result: "acquired" })
+  })
+
+  it("unlocks when the scope throws", async () => {
+    const work = async () => {
+      await using handle = await locks.tryLock("dispose-throw")
+      expect(handle).toBeDefined()
+      throw new Error("Work failed")
+    }
+
+    await expect(work()).rejects.toThrow("Work failed")
+    expect(
+      await otherLocks.tryWithLock("dispose-throw", async () => "acquired"),
+    ).toEqual({ acquired: true, result: "acquired" })
+  })
+
+  it("does not fail a scope that unlocked explicitly", async () => {
+    await using handle = await locks.acquire("dispose-explicit")
+    await handle.unlock()
+    expect(await handle.isHeld()).toBe(false)
+  })
+
+  it("closes the manager at the end of the scope", async () => {
+    let unlocked = false
+    {
+      await using scoped = createAdvisoryLockManager(databaseUrl)
+      const handle = await scoped.acquire("dispose-manager")
+      setTimeout(() => {
+        unlocked = true
+        void handle.unlock()
+      }, 20)
+    }
+
+    expect(unlocked).toBe(true)
+  })
+})
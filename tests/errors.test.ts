@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+
+import {
+  AdvisoryLockError,
+  type AdvisoryLockManager,
+  CloseFromLockContextError,
+  createAdvisoryLockManager,
+  DeadlockError,
+  LockNotHeldError,
+  LockTimeoutError,
+  ManagerClosedError,
+} from "pg-advisory-lock"
+
+import { databaseUrl, sleep } from "#test-utils"
+
+describe("error classes", () => {
+  let locks: AdvisoryLockManager
+  let otherLocks: AdvisoryLockManager
+
+  beforeEach(() => {
+    locks = createAdvisoryLockManager(databaseUrl)
+    otherLocks = createAdvisoryLockManager(databaseUrl)
+  })
+
+  afterEach(async () => {
+    await Promise.all([locks.close(), otherLocks.close()])
+  })
+
+  it("rejects acquisitions on a closed manager with the lock", async () => {
+    await locks.close()
+
+    const error = await locks
+      .namespace("jobs")
+      .withLock("errors-closed", async () => {})
+      .catch((error: unknown) => error)
+    expect(error).toBeInstanceOf(ManagerClosedError)
+    expect(error).toBeInstanceOf(AdvisoryLockError)
+    expect(error).toMatchObject({
+      forced: false,
+      lockName: "errors-closed",
+      name: "ManagerClosedError",
+      namespaces: ["jobs"],
+    })
+  })
+
+  it("marks the locks stopped by a forced close", async () => {
+    const outcome = locks
+      .withLock("errors-forced", () => sleep(1_000))
+      .catch((error: unknown) => error)
+    await sleep(10)
+
+    await locks.close({ force: true, timeout: 10 })
+    const error = await outcome
+    expect(error).toBeInstanceOf(ManagerClosedError)
+    expect(error).toMatchObject({
+      forced: true,
+      lockName: "errors-forced",
+      namespaces: [],
+    })
+    // The locks stopped together share the error of the close as their cause.
+    expect(error).toHaveProperty("cause.forced", true)
+  })
+
+  it("rejects close from a lock context", async () => {
+    await locks.withLock("errors-self-close", async () => {
+      await expect(locks.close()).rejects.toBeInstanceOf(
+        CloseFromLockContextError,
+      )
+    })
+  })
+
+  it("rejects a released handle with the lock", async () => {
+    const handle = await locks.namespace("jobs").lock("errors-released")
+    await handle.unlock()
+
+    const error = await handle
+      .run(async () => {})
+      .catch((error: unknown) => error)
+    expect(error).toBeInstanceOf(LockNotHeldError)
+    expect(error).toMatchObject({
+      lockName: "errors-released",
+      namespaces: ["jobs"],
+    })
+  })
+
+  it("carries the lock of a timed-out acquisition", async () => {
+    const holder = await otherLocks.lock("errors-timeout")
+    try {
+      const error = await locks
+        .withLock("errors-timeout", async () => {}, { timeout: 20 })
+        .catch((error: unknown) => error)
+      expect(error).toBeInstanceOf(LockTimeoutError)
+      expect(error).toBeInstanceOf(AdvisoryLockError)
+      expect(error).toMatchObject({
+        lockName: "errors-timeout",
+        namespaces: [],
+        timeout: 20,
+      })
+    } finally {
+      await holder.unlock()
+    }
+  })
+
+  it("maps a detected deadlock to DeadlockError", async () => {
+    const crossing = (
+      manager: AdvisoryLockManager,
+      first: string,
+      second: string,
+    ) =>
+      manager
+        .withLock(first, async () => {
+          await sleep(50)
+          await manager.withLock(second, async () => {})
+        })
+        .then(
+          () => undefined,
+          (error: unknown) => error,
+        )
+
+    const outcomes = await Promise.all([
+      crossing(locks, "errors-deadlock-a", "errors-deadlock-b"),
+      crossing(otherLocks, "errors-deadlock-b", "errors-deadlock-a"),
+    ])
+
+    // PostgreSQL breaks the cycle by cancelling one of the two waits.
+    const errors = outcomes.filter((outcome) => outcome !== undefined)
+    expect(errors).toHaveLength(1)
+    expect(errors[0]).toBeInstanceOf(DeadlockError)
+    expect(errors[0]).toHaveProperty("cause.code", "40P01")
+  })
+})
@@ -0,0 +1,166 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it } from "bun:test"
+
+import {
+  type AdvisoryLockManager,
+  createAdvisoryLockManager,
+} from "pg-advisory-lock"
+import postgres from "postgres"
+
+import { databaseUrl } from "#test-utils"
+
+const fencingTable = "pg_advisory_lock_test_fencing_tokens"
+
+describe("fencing tokens", () => {
+  let locks: AdvisoryLockManager
+
+  beforeEach(() => {
+    locks = createAdvisoryLockManager(databaseUrl, {
+      fencing: true,
+      fencingTable,
+    })
+  })
+
+  afterEach(async () => {
+    await locks.close()
+  })
+
+  afterAll(async () => {
+    const sql = postgres(databaseUrl, { max: 1 })
+    try {
+      await sql`DROP TABLE IF EXISTS ${sql(fencingTable)}`
+    } finally {
+      await sql.end()
+    }
+  })
+
+  it("issues increasing tokens to successive callbacks", async () => {
+    const first = await locks.withLock(
+      "fencing-with-lock",
+      async ({ fencingToken }) => fencingToken,
+    )
+    const second = await locks.withLock(
+      "fencing-with-lock",
+      async ({ fencingToken }) => fencingToken,
+    )
+
+    expect(first).toBeTypeOf("bigint")
+    expect(second).toBe((first as bigint) + 1n)
+  })
+
+  it("reuses the token of the holder for nested acquisitions", async () => {
+    const tokens = await locks.withLock(
+      "fencing-nested",
+      async ({ fencingToken }) => {
+        const nested = await locks.withLock(
+          "fencing-nested",
+          async (context) => context.fencingToken,
+        )
+        const tried = await locks.tryWithLock(
+          "fencing-nested",
+          async (context) => context.fencingToken,
+        )
+        return [fencingToken, nested, tried.acquired && tried.result]
+      },
+    )
+    expect(tokens[1]).toBe(tokens[0])
+    expect(tokens[2]).toBe(tokens[0])
+
+    const handle = await locks.lock("fencing-nested")
+    try {
+      expect(handle.fencingToken).toBe((tokens[0] as bigint) + 1n)
+      expect(
+        await handle.run(() =>
+          locks.withLock(
+            "fencing-nested",
+            async ({ fencingToken }) => fencingToken,
+          ),
+        ),
+      ).toBe(handle.fencingToken)
+    } finally {
+      await handle.unlock()
+    }
+
+    // Once released, the next holder receives a newer token.
+    expect(
+      await locks.withLock(
+        "fencing-nested",
+        async ({ fencingToken }) => fencingToken,
+      ),
+    ).toBe((tokens[0] as bigint) + 2n)
+  })
+
+  it("shares the counter between tryWithLock, tryLock, and other managers", async () => {
+    const otherLocks = createAdvisoryLockManager(databaseUrl, {
+      fencing: true,
+      fencingTable,
+    })
+
+    try {
+      const tried = await locks.tryWithLock(
+        "fencing-shared",
+        async ({ fencingToken }) => fencingToken,
+      )
+      if (!tried.acquired) throw new Error("Expected to acquire the lock")
+
+      const unlock = await otherLocks.tryLock("fencing-shared")
+      if (!unlock) throw new Error("Expected to acquire the lock")
+      await unlock()
+
+      expect(unlock.fencingToken).toBe((tried.result as bigint) + 1n)
+    } finally {
+      await otherLocks.close()
+    }
+  })
+
+  it("keeps a separate counter for each namespace", async () => {
+    const tenantA = locks.namespace("tenant-a")
+    const before = await tenantA.withLock(
+      "fencing-ns",
+      async ({ fencingToken }) => fencingToken,
+    )
+    await locks.withLock("fencing-ns", async () => {})
+
+    const after = await tenantA.withLock(
+      "fencing-ns",
+      async ({ fencingToken }) => fencingToken,
+    )
+    expect(after).toBe((before as bigint) + 1n)
+  })
+
+  it("keeps separate counters for a bigint key and an int4 pair of the same value", async () => {
+    const bigintToken = await locks.withLock(
+      9_000_001n,
+      async ({ fencingToken }) => fencingToken,
+    )
+    const pairToken = await locks.withLock(
+      [0, 9_000_001],
+      async ({ fencingToken }) => fencingToken,
+    )
+
+    // PostgreSQL treats them as different locks, so neither advances the other's counter.
+    expect(pairToken).toBe(bigintToken)
+  })
+
+  it("is enabled per keyspace", async () => {
+    const plainLocks = createAdvisoryLockManager(databaseUrl, { fencingTable })
+
+    try {
+      expect(
+        await plainLocks.withLock(
+          "fencing-disabled",
+          async ({ fencingToken }) => fencingToken,
+        ),
+      ).toBeUndefined()
+      expect(
+        await plainLocks
+          .namespace("fenced", { fencing: true, timeout: 1000 })
+          .withLock(
+            "fencing-disabled",
+            async ({ fencingToken }) => fencingToken,
+          ),
+      ).toBeTypeOf("bigint")
+    } finally {
+      await plainLocks.close()
+    }
+  })
+})
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+
+import {
+  type AdvisoryLockManager,
+  createAdvisoryLockManager,
+  LockTimeoutError,
+} from "pg-advisory-lock"
+import postgres from "postgres"
+
+import { databaseUrl, sleep } from "#test-utils"
+
+describe("holder sessions", () => {
+  let sql: postgres.Sql
+  let locks: AdvisoryLockManager
+  let otherLocks: AdvisoryLockManager
+
+  beforeEach(() => {
+    sql = postgres(databaseUrl)
+    locks = createAdvisoryLockManager(databaseUrl, {
+      holderPollInterval: 10,
+      holderSessions: 2,
+    })
+    otherLocks = createAdvisoryLockManager(databaseUrl)
+  })
+
+  afterEach(async () => {
+    await Promise.all([locks.close(), otherLocks.close()])
+    await sql.end()
+  })
+
+  async function holderBackends() {
+    const rows = await sql`
+      SELECT count(DISTINCT pid)::int AS backends, count(*)::int AS locks
+      FROM pg_locks
+      WHERE locktype = 'advisory' AND granted AND pid <> pg_backend_pid()
+    `
+    return rows[0]
+  }
+
+  it("holds many locks on a few sessions", async () => {
+    const names = Array.from({ length: 50 }, (_, index) => `holder-${index}`)
+    const handles = await Promise.all(names.map((name) => locks.lock(name)))
+
+    expect(locks.metrics().reservedConnections).toBe(2)
+    expect(await holderBackends()).toEqual({ backends: 2, locks: 50 })
+    expect(await otherLocks.tryLock("holder-7")).toBeUndefined()
+
+    await handles[7]?.unlock()
+    expect(
+      await otherLocks.tryWithLock("holder-7", async () => "released"),
+    ).toEqual({ acquired: true, result: "released" })
+
+    await Promise.all(handles.map((handle) => handle.unlock()))
+    expect(await holderBackends()).toEqual({ backends: 0, locks: 0 })
+  })
+
+  it("excludes other owners of a lock on the same session", async () => {
+    const single = createAdvisoryLockManager(databaseUrl, {
+      holderSessions: 1,
+    })
+    try {
+      const handle = await single.lock("holder-owned")
+
+      expect(await single.tryLock("holder-owned")).toBeUndefined()
+      expect(await single.tryWithLock("holder-owned", async () => {})).toEqual({
+        acquired: false,
+      })
+      await expect(
+        single.withLocks(["holder-other", "holder-owned"], async () => {}, {
+          timeout: 50,
+        }),
+      ).rejects.toBeInstanceOf(LockTimeoutError)
+
+      // Nested acquisitions belong to the owner of the enclosing callback.
+      expect(
+        await handle.run(() =>
+          single.withLock("holder-owned", async () => "nested"),
+        ),
+      ).toBe("nested")
+
+      await handle.unlock()
+      expect(
+        await single.tryWithLock("holder-owned", async () => "acquired"),
+      ).toEqual({ acquired: true, result: "acquired" })
+    } finally {
+      await single.close()
+    }
+  })
+
+  it("polls for a contended lock without stalling its session", async () => {
+    const single = createAdvisoryLockManager(databaseUrl, {
+      holderPollInterval: 10,
+      holderSessions: 1,
+    })
+    try {
+      const holder = await otherLocks.lock("holder-contended")
+      const waiting = single.withLock("holder-contended", async () => "waited")
+
+      await sleep(30)
+      expect(
+        await single.withLock("holder-free", async () => "free", {
+          timeout: 100,
+        }),
+      ).toBe("free")
+      await expect(
+        single.withLock("holder-contended", async () => {}, { timeout: 50 }),
+      ).rejects.toBeInstanceOf(LockTimeoutError)
+
+      await holder.unlock()
+      expect(await waiting).toBe("waited")
+    } finally {
+      await single.close()
+    }
+  })
+
+  it("lets owners share shared locks on one session", async () => {
+    const single = createAdvisoryLockManager(databaseUrl, {
+      holderSessions: 1,
+    })
+    try {
+      const rw = single.createRwMutex("holder-shared")
+      const first = await rw.tryReadLock()
+      const second = await rw.tryReadLock()
+
+      expect(first).toBeDefined()
+      expect(second).toBeDefined()
+      expect(await rw.tryWriteLock()).toBeUndefined()
+
+      await first?.unlock()
+      expect(await second?.isHeld()).toBe(true)
+      await second?.unlock()
+      expect(await rw.tryWithWriteLock(async () => "written")).toEqual({
+        acquired: true,
+        result: "written",
+      })
+    } finally {
+      await single.close()
+    }
+  })
+
+  it("releases its sessions on close", async () => {
+    await locks.withLock("holder-close", async () => {})
+    expect(locks.metrics().reservedConnections).toBe(1)
+
+    await locks.close()
+    expect(locks.metrics().reservedConnections).toBe(0)
+  })
+
+  it("rejects an invalid session count", () => {
+    expect(() =>
+      createAdvisoryLockManager(databaseUrl, { holderSessions: 0 }),
+    ).toThrow(RangeError)
+  })
+})
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+
+import {
+  type AdvisoryLockHoldEvent,
+  type AdvisoryLockManager,
+  createAdvisoryLockManager,
+  LockTimeoutError,
+} from "pg-advisory-lock"
+
+import { databaseUrl, sleep } from "#test-utils"
+
+type RecordedEvent = [
+  hook: string,
+  event?: Partial<AdvisoryLockHoldEvent & { error: unknown }>,
+]
+
+describe("lifecycle hooks", () => {
+  let events: RecordedEvent[]
+  let locks: AdvisoryLockManager
+  let otherLocks: AdvisoryLockManager
+
+  beforeEach(() => {
+    events = []
+    const record =
+      (hook: string) =>
+      (event?: RecordedEvent[1]): void => {
+        events.push(event ? [hook, event] : [hook])
+      }
+    locks = createAdvisoryLockManager(databaseUrl, {
+      hooks: {
+        acquireFailed: record("acquireFailed"),
+        acquireStart: record("acquireStart"),
+        acquired: record("acquired"),
+        close: record("close"),
+        contended: record("contended"),
+        released: record("released"),
+        releaseFailed: record("releaseFailed"),
+      },
+    })
+    otherLocks = createAdvisoryLockManager(databaseUrl)
+  })
+
+  afterEach(async () => {
+    await Promise.all([locks.close(), otherLocks.close()])
+  })
+
+  it("reports acquisition and release with durations", async () => {
+    await locks.namespace("tenant-a").withLock("hooks-basic", () => sleep(20))
+
+    const lock = {
+      depth: 1,
+      mode: "exclusive" as const,
+      name: "hooks-basic",
+      namespaces: ["tenant-a"],
+    }
+    expect(events).toEqual([
+      ["acquireStart", lock],
+      ["acquired", { ...lock, waitDuration: expect.any(Number) }],
+      [
+        "released",
+        {
+          ...lock,
+          holdDuration: expect.any(Number),
+          waitDuration: expect.any(Number),
+        },
+      ],
+    ])
+    expect(events[2]?.[1]?.holdDuration).toBeGreaterThanOrEqual(15)
+  })
+
+  it("reports the nesting depth", async () => {
+    await locks.withLock("hooks-outer", async () => {
+      await locks.withLock("hooks-inner", async () => {
+        const unlock = await locks.tryLock("hooks-manual")
+        await unlock?.()
+      })
+    })
+
+    const depths = events
+      .filter(([hook]) => hook === "acquired")
+      .map(([, event]) => [event?.name, event?.depth])
+    expect(depths).toEqual([
+      ["hooks-outer", 1],
+      ["hooks-inner", 2],
+      ["hooks-manual", 3],
+    ])
+  })
+
+  it("reports the depth of semaphore permits like that of their call", async () => {
+    const semaphore = locks.createSemaphore("hooks-permits", 1)
+    await semaphore.withPermit(async () => {})
+    await semaphore.tryWithPermit(async () => {})
+    await locks.withLock("hooks-permits-outer", async () => {
+      await semaphore.withPermit(async () => {})
+    })
+
+    const depths = events
+      .filter(([hook]) => hook === "acquired")
+      .map(([, event]) => event?.depth)
+    expect(depths).toEqual([1, 1, 1, 2])
+  })
+
+  it("reports contention and failed acquisitions", async () => {
+    const unlock = await otherLocks.tryLock("hooks-busy")
+    if (!unlock) throw new Error("Expected to acquire the lock")
+
+    try {
+      await locks.tryWithLock("hooks-busy", async () => {})
+      await locks
+        .withLock("hooks-busy", async () => {}, { timeout: 30 })
+        .catch(() => {})
+    } finally {
+      await unlock()
+    }
+
+    expect(events.map(([hook]) => hook)).toEqual([
+      "acquireStart",
+      "contended",
+      "acquireStart",
+      "acquireFailed",
+    ])
+    const failed = events[3]?.[1]
+    expect(failed?.error).toBeInstanceOf(LockTimeoutError)
+    expect(failed?.waitDuration).toBeGreaterThanOrEqual(25)
+  })
+
+  it("reports multi-lock acquisitions under their joined names", async () => {
+    await locks.withLocks(["hooks-a", "hooks-b"], async () => {})
+
+    expect(events.map(([hook, event]) => [hook, event?.name])).toEqual([
+      ["acquireStart", "hooks-a, hooks-b"],
+      ["acquired", "hooks-a, hooks-b"],
+      ["released", "hooks-a, hooks-b"],
+    ])
+  })
+
+  it("reports closing the manager", async () => {
+    await locks.close()
+
+    expect(events).toEqual([["close"]])
+  })
+})
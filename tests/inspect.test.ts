@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+
+import {
+  type AdvisoryLockManager,
+  createAdvisoryLockManager,
+} from "pg-advisory-lock"
+import postgres from "postgres"
+
+import { databaseUrl, sleep } from "#test-utils"
+
+const applicationName = "pg-advisory-lock-inspect-test"
+
+describe("inspect", () => {
+  let holderSql: postgres.Sql
+  let holderLocks: AdvisoryLockManager
+  let locks: AdvisoryLockManager
+
+  beforeEach(() => {
+    holderSql = postgres(databaseUrl, {
+      connection: { application_name: applicationName },
+    })
+    holderLocks = createAdvisoryLockManager(holderSql)
+    locks = createAdvisoryLockManager(databaseUrl)
+  })
+
+  afterEach(async () => {
+    await Promise.all([holderLocks.close(), locks.close()])
+    await holderSql.end()
+  })
+
+  it("reports a free lock", async () => {
+    const inspection = await locks.inspect("inspect-free")
+
+    expect(inspection).toMatchObject({ held: false, holders: [], waiting: 0 })
+    expect(inspection.key).toBeTypeOf("bigint")
+  })
+
+  it("reports the holder and waiting sessions", async () => {
+    const unlock = await holderLocks.tryLock("inspect-held")
+    if (!unlock) throw new Error("Expected to acquire the lock")
+
+    const waiter = locks.withLock("inspect-held", async () => "acquired", {
+      timeout: 5000,
+    })
+    try {
+      await sleep(100)
+      const inspection = await locks.inspect("inspect-held")
+
+      expect(inspection.held).toBe(true)
+      expect(inspection.waiting).toBe(1)
+      expect(inspection.holders).toMatchObject([
+        {
+          applicationName,
+          mode: "exclusive",
+          pid: expect.any(Number),
+          sessionStartedAt: expect.any(Date),
+        },
+      ])
+    } finally {
+      await unlock()
+    }
+
+    expect(await waiter).toBe("acquired")
+  })
+
+  it("derives the key within the namespace", async () => {
+    await holderLocks.namespace("tenant-a").withLock("inspect-ns", async () => {
+      expect(
+        (await locks.namespace("tenant-a").inspect("inspect-ns")).held,
+      ).toBe(true)
+      expect((await locks.inspect("inspect-ns")).held).toBe(false)
+    })
+  })
+
+  it("reports every shared holder", async () => {
+    const readers = [holderLocks, locks].map((manager) =>
+      manager.createRwMutex("inspect-shared").tryReadLock(),
+    )
+    const unlocks = await Promise.all(readers)
+
+    try {
+      const { holders } = await locks.inspect("inspect-shared")
+      expect(holders.map((holder) => holder.mode)).toEqual(["shared", "shared"])
+    } finally {
+      await Promise.all(unlocks.map((unlock) => unlock?.()))
+    }
+  })
+})
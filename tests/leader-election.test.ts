@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+
+import {
+  type AdvisoryLockManager,
+  createAdvisoryLockManager,
+  type LeaderDemotion,
+  type LockContext,
+} from "pg-advisory-lock"
+import postgres from "postgres"
+
+import { databaseUrl, sleep } from "#test-utils"
+
+const applicationName = "pg-advisory-lock-leader-test"
+
+function waitFor(predicate: () => boolean, timeout = 2000) {
+  return new Promise<void>((resolve, reject) => {
+    const startedAt = Date.now()
+    const check = () => {
+      if (predicate()) resolve()
+      else if (Date.now() - startedAt > timeout)
+        reject(new Error("Timed out waiting for the condition"))
+      else setTimeout(check, 10)
+    }
+    check()
+  })
+}
+
+describe("leader election", () => {
+  let adminSql: postgres.Sql
+  let leaderSql: postgres.Sql
+  let locks: AdvisoryLockManager
+  let otherLocks: AdvisoryLockManager
+
+  beforeEach(() => {
+    adminSql = postgres(databaseUrl, { max: 1 })
+    leaderSql = postgres(databaseUrl, {
+      connection: { application_name: applicationName },
+    })
+    locks = createAdvisoryLockManager(leaderSql)
+    otherLocks = createAdvisoryLockManager(databaseUrl)
+  })
+
+  afterEach(async () => {
+    await Promise.all([locks.close(), otherLocks.close()])
+    // postgres.js may wait forever to end a connection closed during a query.
+    await Promise.all([adminSql.end(), leaderSql.end({ timeout: 0 })])
+  })
+
+  it("elects a lone candidate until it resigns", async () => {
+    const elected: LockContext[] = []
+    const demoted: LeaderDemotion[] = []
+    const election = locks.createLeaderElection("leader-lone", {
+      onDemoted: (demotion) => demoted.push(demotion),
+      onElected: (context) => elected.push(context),
+    })
+
+    await waitFor(() => election.isLeader)
+    expect(elected).toHaveLength(1)
+    expect(await otherLocks.tryWithLock("leader-lone", async () => {})).toEqual(
+      { acquired: false },
+    )
+
+    await election.resign()
+
+    expect(election.isLeader).toBe(false)
+    expect(elected[0]?.signal.aborted).toBe(true)
+    expect(demoted).toEqual([{ reason: "resigned" }])
+    expect(
+      await otherLocks.tryWithLock("leader-lone", async () => "acquired"),
+    ).toEqual({ acquired: true, result: "acquired" })
+  })
+
+  it("hands leadership over to a waiting candidate", async () => {
+    const first = locks.createLeaderElection("leader-handover")
+    await waitFor(() => first.isLeader)
+
+    const second = otherLocks.createLeaderElection("leader-handover", {
+      campaignInterval: 20,
+    })
+    await sleep(60)
+    expect(second.isLeader).toBe(false)
+
+    await first.resign()
+    await waitFor(() => second.isLeader)
+    await second.resign()
+  })
+
+  it("demotes the leader when the manager closes", async () => {
+    const demoted: LeaderDemotion[] = []
+    const election = locks.createLeaderElection("leader-close", {
+      onDemoted: (demotion) => demoted.push(demotion),
+    })
+    await waitFor(() => election.isLeader)
+
+    await locks.close()
+
+    expect(election.isLeader).toBe(false)
+    expect(demoted).toEqual([{ reason: "closed" }])
+  })
+
+  it("campaigns again after losing its connection", async () => {
+    const demoted: LeaderDemotion[] = []
+    let terms = 0
+    const election = locks.createLeaderElection("leader-lost", {
+      onDemoted: (demotion) => demoted.push(demotion),
+      onElected: () => {
+        terms += 1
+      },
+    })
+    await waitFor(() => election.isLeader)
+
+    await adminSql`
+      SELECT FROM (
+        SELECT pg_terminate_backend(pid)
+        FROM pg_stat_activity
+        WHERE application_name = ${applicationName}
+      ) AS terminated
+      OFFSET 1000
+    `
+
+    await waitFor(() => terms === 2)
+    expect(election.isLeader).toBe(true)
+    expect(demoted).toMatchObject([
+      {
+        error: { message: "Advisory lock connection was lost" },
+        reason: "lost",
+      },
+    ])
+    await election.resign()
+  })
+})
@@ -1,6 +1,9 @@
 import { describe, expect, it } from "bun:test"
 
-import { createAdvisoryLockManager } from "pg-advisory-lock"
+import {
+  CloseFromLockContextError,
+  createAdvisoryLockManager,
+} from "pg-advisory-lock"
 import postgres from "postgres"
 
 import { databaseUrl } from "#test-utils"
@@ -187,11 +190,7 @@ describe("lifecycle", () => {
 
         expect(outcome.status).toBe("rejected")
         if (outcome.status === "rejected") {
-          expect(outcome.error).toEqual(
-            new Error(
-              "Cannot close advisory lock manager from an active lock context",
-            ),
-          )
+          expect(outcome.error).toEqual(new CloseFromLockContextError())
         }
       })
 
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+
+import {
+  type AdvisoryLockManager,
+  createAdvisoryLockManager,
+  LockTimeoutError,
+} from "pg-advisory-lock"
+import postgres from "postgres"
+
+import { databaseUrl, sleep } from "#test-utils"
+
+describe("lock handles", () => {
+  let adminSql: postgres.Sql
+  let locks: AdvisoryLockManager
+  let otherLocks: AdvisoryLockManager
+
+  beforeEach(() => {
+    adminSql = postgres(databaseUrl, { max: 1 })
+    locks = createAdvisoryLockManager(databaseUrl)
+    otherLocks = createAdvisoryLockManager(databaseUrl)
+  })
+
+  afterEach(async () => {
+    await Promise.all([locks.close(), otherLocks.close()])
+    await adminSql.end()
+  })
+
+  it("waits for the lock and describes it", async () => {
+    const holder = await otherLocks.lock("handle-wait")
+    const startedAt = Date.now()
+    const waiter = locks.namespace("tenant-a").lock("handle-other")
+    const contender = locks.lock("handle-wait")
+
+    await sleep(50)
+    await holder.unlock()
+    const handle = await contender
+
+    expect(handle.name).toBe("handle-wait")
+    expect(handle.namespaces).toEqual([])
+    expect(handle.acquiredAt.getTime()).toBeGreaterThanOrEqual(startedAt + 50)
+    const other = await waiter
+    expect(other.namespaces).toEqual(["tenant-a"])
+
+    await Promise.all([handle(), other.unlock()])
+  })
+
+  it("times out like withLock()", async () => {
+    const holder = await otherLocks.lock("handle-timeout")
+    try {
+      await expect(
+        locks.lock("handle-timeout", { timeout: 50 }),
+      ).rejects.toThrow(LockTimeoutError)
+      expect(await locks.tryLock("handle-timeout")).toBeUndefined()
+    } finally {
+      await holder.unlock()
+    }
+  })
+
+  it("reports whether the lock is held", async () => {
+    const handle = await locks.lock([5, 6])
+    expect(await handle.isHeld()).toBe(true)
+    await handle.unlock()
+    expect(await handle.isHeld()).toBe(false)
+  })
+
+  it("reports a lock lost with its connection as not held and frees its turn", async () => {
+    const applicationName = "pg-advisory-lock-handle-test"
+    const holderSql = postgres(databaseUrl, {
+      connection: { application_name: applicationName },
+    })
+    const holderLocks = createAdvisoryLockManager(holderSql)
+    try {
+      const handle = await holderLocks.lock("handle-lost")
+      const lost = new Promise((resolve) => handle.onLost(resolve))
+      const waiting = holderLocks.withLock("handle-lost", async () => "next", {
+        timeout: 2_000,
+      })
+
+      await adminSql`
+        SELECT FROM (
+          SELECT pg_terminate_backend(pid)
+          FROM pg_stat_activity
+          WHERE application_name = ${applicationName}
+        ) AS terminated
+        OFFSET 1000
+      `
+      await lost
+
+      // Local waiters take the lock without waiting for the lost handle to be unlocked.
+      expect(await waiting).toBe("next")
+      expect(await handle.isHeld()).toBe(false)
+      await handle.unlock().catch(() => {})
+    } finally {
+      await holderLocks.close()
+      // postgres.js may wait forever to end a connection closed during a query.
+      await holderSql.end({ timeout: 0 })
+    }
+  })
+
+  it("runs nested operations on the handle's connection", async () => {
+    const handle = await locks.lock("handle-run")
+
+    const result = await handle.run(async (context) => {
+      expect(context.signal.aborted).toBe(false)
+      // Reentrant on the same session, while another session is excluded.
+      return await locks.withLock("handle-run", async () => "nested")
+    })
+
+    expect(result).toBe("nested")
+    expect(await otherLocks.tryLock("handle-run")).toBeUndefined()
+
+    await handle.unlock()
+    await expect(handle.run(async () => {})).rejects.toThrow(
+      "Advisory lock is no longer held by its connection",
+    )
+  })
+})
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+
+import {
+  type AdvisoryLockManager,
+  ConnectionLostError,
+  createAdvisoryLockManager,
+} from "pg-advisory-lock"
+import postgres from "postgres"
+
+import { databaseUrl, sleep } from "#test-utils"
+
+const applicationName = "pg-advisory-lock-lost-test"
+
+describe("lost lock detection", () => {
+  let adminSql: postgres.Sql
+  let holderSql: postgres.Sql
+  let locks: AdvisoryLockManager
+
+  beforeEach(() => {
+    adminSql = postgres(databaseUrl, { max: 1 })
+    holderSql = postgres(databaseUrl, {
+      connection: { application_name: applicationName },
+      max: 1,
+    })
+    locks = createAdvisoryLockManager(holderSql)
+  })
+
+  afterEach(async () => {
+    await locks.close()
+    // postgres.js may wait forever to end a connection closed during a query.
+    await Promise.all([adminSql.end(), holderSql.end({ timeout: 0 })])
+  })
+
+  async function terminateHolder() {
+    await adminSql`
+      SELECT FROM (
+        SELECT pg_terminate_backend(pid)
+        FROM pg_stat_activity
+        WHERE application_name = ${applicationName}
+      ) AS terminated
+      OFFSET 1000
+    `
+  }
+
+  function aborted(signal: AbortSignal) {
+    return new Promise<unknown>((resolve) => {
+      if (signal.aborted) resolve(signal.reason)
+      signal.addEventListener("abort", () => resolve(signal.reason))
+    })
+  }
+
+  it("aborts the callback signal when the connection is lost", async () => {
+    let reason: unknown
+    const outcome = locks.withLock("lost-with-lock", async ({ signal }) => {
+      expect(signal.aborted).toBe(false)
+      await terminateHolder()
+      reason = await aborted(signal)
+      return "unexpected"
+    })
+
+    // The lock did not outlive the callback, so withLock reports the loss instead of its result.
+    const error = await outcome.catch((error: unknown) => error)
+    expect(error).toBeInstanceOf(Error)
+    expect(error).toHaveProperty("message", "Advisory lock connection was lost")
+    expect(error).toBeInstanceOf(ConnectionLostError)
+    expect(error).toMatchObject({ lockName: "lost-with-lock", namespaces: [] })
+    // The signal is shared by the callbacks of the connection, so it reports the loss of the connection itself.
+    expect(error).toHaveProperty("cause", reason)
+  })
+
+  it("shares the signal with nested callbacks", async () => {
+    const observed = await locks
+      .withLock("lost-outer", async (outer) => {
+        return await locks.withLock("lost-inner", async (inner) => {
+          await terminateHolder()
+          await aborted(inner.signal)
+          return outer.signal.aborted
+        })
+      })
+      .catch(() => true)
+
+    expect(observed).toBe(true)
+  })
+
+  it("calls onLost listeners of manual locks", async () => {
+    const unlock = await locks.tryLock("lost-manual")
+    if (!unlock) throw new Error("Expected to acquire the lock")
+
+    const removed = unlock.onLost(() => {
+      throw new Error("Removed listener was called")
+    })
+    removed()
+
+    const lost = new Promise<Error>((resolve) => unlock.onLost(resolve))
+    await terminateHolder()
+
+    const error = await lost
+    expect(error.message).toBe("Advisory lock connection was lost")
+    expect(error).toMatchObject({ lockName: "lost-manual", namespaces: [] })
+    expect(error.cause).toBeDefined()
+    await expect(unlock()).rejects.toBe(error)
+  })
+
+  it("does not report losses after unlock", async () => {
+    const unlock = await locks.tryLock("lost-after-unlock")
+    if (!unlock) throw new Error("Expected to acquire the lock")
+
+    let lostCalls = 0
+    unlock.onLost(() => {
+      lostCalls += 1
+    })
+    await unlock()
+    unlock.onLost(() => {
+      lostCalls += 1
+    })
+
+    await terminateHolder()
+    await sleep(60)
+    expect(lostCalls).toBe(0)
+  })
+})
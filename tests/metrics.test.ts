@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+
+import {
+  type AdvisoryLockManager,
+  createAdvisoryLockManager,
+  formatPrometheusMetrics,
+} from "pg-advisory-lock"
+
+import { databaseUrl, sleep } from "#test-utils"
+
+describe("metrics", () => {
+  let locks: AdvisoryLockManager
+  let otherLocks: AdvisoryLockManager
+
+  beforeEach(() => {
+    locks = createAdvisoryLockManager(databaseUrl, {
+      metrics: { buckets: [10, 1000] },
+    })
+    otherLocks = createAdvisoryLockManager(databaseUrl)
+  })
+
+  afterEach(async () => {
+    await Promise.all([locks.close(), otherLocks.close()])
+  })
+
+  it("starts empty", () => {
+    expect(locks.metrics()).toEqual({
+      acquisitions: 0,
+      contentions: 0,
+      failures: 0,
+      groups: [],
+      held: 0,
+      queuedAcquisitions: 0,
+      reservedConnections: 0,
+      waiting: 0,
+    })
+  })
+
+  it("reports held locks and reserved connections while active", async () => {
+    await locks.namespace("tenant-a").withLock("metrics-held", async () => {
+      expect(locks.metrics()).toMatchObject({
+        acquisitions: 1,
+        held: 1,
+        reservedConnections: 1,
+        waiting: 0,
+      })
+    })
+
+    const { groups, held, reservedConnections } = locks.metrics()
+    expect({ held, reservedConnections }).toEqual({
+      held: 0,
+      reservedConnections: 0,
+    })
+    expect(groups).toMatchObject([
+      {
+        acquisitions: 1,
+        holdDuration: { count: 1 },
+        namespaces: ["tenant-a"],
+        waitDuration: { count: 1 },
+      },
+    ])
+    expect(groups[0]?.name).toBeUndefined()
+  })
+
+  it("counts waiters, contention, and timeouts", async () => {
+    const unlock = await otherLocks.tryLock("metrics-busy")
+    if (!unlock) throw new Error("Expected to acquire the lock")
+
+    try {
+      await locks.tryWithLock("metrics-busy", async () => {})
+      const waiter = locks
+        .withLock("metrics-busy", async () => {}, { timeout: 100 })
+        .catch(() => {})
+      await sleep(20)
+      expect(locks.metrics().waiting).toBe(1)
+      await waiter
+    } finally {
+      await unlock()
+    }
+
+    expect(locks.metrics()).toMatchObject({
+      acquisitions: 0,
+      contentions: 1,
+      failures: 1,
+      waiting: 0,
+    })
+  })
+
+  it("groups by lock name when configured", async () => {
+    const byName = createAdvisoryLockManager(databaseUrl, {
+      metrics: { groupBy: "name" },
+    })
+    try {
+      await byName.withLock("metrics-a", async () => {})
+      await byName.withLock("metrics-b", async () => {})
+      await byName.withLock("metrics-a", async () => {})
+
+      expect(
+        byName.metrics().groups.map(({ acquisitions, name }) => ({
+          acquisitions,
+          name,
+        })),
+      ).toEqual([
+        { acquisitions: 2, name: "metrics-a" },
+        { acquisitions: 1, name: "metrics-b" },
+      ])
+    } finally {
+      await byName.close()
+    }
+  })
+
+  it("renders the Prometheus text format", () => {
+    const text = formatPrometheusMetrics({
+      acquisitions: 3,
+      contentions: 1,
+      failures: 0,
+      groups: [
+        {
+          acquisitions: 3,
+          contentions: 1,
+          failures: 0,
+          holdDuration: {
+            buckets: [
+              { le: 10, count: 1 },
+              { le: 1000, count: 3 },
+            ],
+            count: 3,
+            sum: 1500,
+          },
+          name: 'job "a"',
+          namespaces: ["tenant-a", "jobs"],
+          waitDuration: {
+            buckets: [
+              { le: 10, count: 4 },
+              { le: 1000, count: 4 },
+            ],
+            count: 4,
+            sum: 8,
+          },
+        },
+      ],
+      held: 1,
+      queuedAcquisitions: 1,
+      reservedConnections: 1,
+      waiting: 2,
+    })
+    const labels = 'namespace="tenant-a/jobs",name="job \\"a\\""'
+
+    expect(text).toContain(
+      "# TYPE pg_advisory_lock_acquisitions_total counter\n" +
+        `pg_advisory_lock_acquisitions_total{${labels}} 3\n`,
+    )
+    expect(text).toContain("pg_advisory_lock_waiting 2\n")
+    expect(text).toContain("pg_advisory_lock_reserved_connections 1\n")
+    expect(text).toContain("pg_advisory_lock_queued_acquisitions 1\n")
+    expect(text).toContain(
+      "# TYPE pg_advisory_lock_hold_duration_seconds histogram\n" +
+        `pg_advisory_lock_hold_duration_seconds_bucket{${labels},le="0.01"} 1\n` +
+        `pg_advisory_lock_hold_duration_seconds_bucket{${labels},le="1"} 3\n` +
+        `pg_advisory_lock_hold_duration_seconds_bucket{${labels},le="+Inf"} 3\n` +
+        `pg_advisory_lock_hold_duration_seconds_sum{${labels}} 1.5\n` +
+        `pg_advisory_lock_hold_duration_seconds_count{${labels}} 3\n`,
+    )
+    expect(text.endsWith("\n")).toBe(true)
+  })
+})
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+
+import {
+  type AdvisoryLockManager,
+  createAdvisoryLockManager,
+} from "pg-advisory-lock"
+import postgres from "postgres"
+
+import { databaseUrl } from "#test-utils"
+
+describe("raw keys", () => {
+  let sql: postgres.Sql
+  let locks: AdvisoryLockManager
+
+  beforeEach(() => {
+    sql = postgres(databaseUrl, { max: 1 })
+    locks = createAdvisoryLockManager(databaseUrl)
+  })
+
+  afterEach(async () => {
+    await locks.close()
+    await sql.end()
+  })
+
+  function rawArguments(key: bigint | readonly [number, number]) {
+    return typeof key === "bigint"
+      ? sql`${String(key)}::int8`
+      : sql`${key[0]}::int4, ${key[1]}::int4`
+  }
+
+  async function tryRawLock(key: bigint | readonly [number, number]) {
+    const [row] =
+      await sql`SELECT pg_try_advisory_lock(${rawArguments(key)})::text`.values()
+    const acquired = row?.[0] === "true"
+    if (acquired) {
+      await sql`SELECT FROM (SELECT pg_advisory_unlock(${rawArguments(key)})) AS unlocked`
+    }
+    return acquired
+  }
+
+  it("locks the bigint overload", async () => {
+    const key = 9_007_199_254_740_993n
+
+    await locks.withLock(key, async () => {
+      expect(await tryRawLock(key)).toBe(false)
+    })
+
+    expect(await tryRawLock(key)).toBe(true)
+  })
+
+  it("locks the (int4, int4) overload", async () => {
+    await locks.withLock([1, -2], async () => {
+      expect(await tryRawLock([1, -2])).toBe(false)
+      // The pair and the bigint packing the same bits are distinct locks.
+      expect(await tryRawLock((1n << 32n) | 0xfffffffen)).toBe(true)
+    })
+
+    expect(await tryRawLock([1, -2])).toBe(true)
+  })
+
+  it("ignores namespaces for raw keys", async () => {
+    const unlock = await locks.namespace("tenant-a").tryLock(42n)
+    if (!unlock) throw new Error("Expected to acquire the lock")
+
+    try {
+      expect(await locks.namespace("tenant-b").tryLock(42n)).toBeUndefined()
+    } finally {
+      await unlock()
+    }
+  })
+
+  it("takes transaction-level locks on raw keys", async () => {
+    const txSql = postgres(databaseUrl, { max: 1 })
+    try {
+      await txSql.begin(async (tx) => {
+        await locks.xactLock(tx, [7, 8])
+        expect(await tryRawLock([7, 8])).toBe(false)
+      })
+      expect(await tryRawLock([7, 8])).toBe(true)
+    } finally {
+      await txSql.end()
+    }
+  })
+
+  it("inspects raw keys", async () => {
+    const unlock = await locks.tryLock([3, 4])
+    if (!unlock) throw new Error("Expected to acquire the lock")
+
+    try {
+      const pair = await locks.inspect([3, 4])
+      expect(pair).toMatchObject({ held: true, key: (3n << 32n) | 4n })
+      expect(await locks.inspect((3n << 32n) | 4n)).toMatchObject({
+        held: false,
+      })
+    } finally {
+      await unlock()
+    }
+  })
+
+  it("rejects keys outside their PostgreSQL types", () => {
+    expect(() => locks.createMutex(2n ** 63n)).toThrow(RangeError)
+    expect(() => locks.createMutex([2 ** 31, 0])).toThrow(RangeError)
+    expect(() => locks.createMutex([1.5, 0])).toThrow(RangeError)
+  })
+})
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+
+import {
+  type AdvisoryLockManager,
+  createAdvisoryLockManager,
+  LockTimeoutError,
+  ReentrantLockError,
+} from "pg-advisory-lock"
+
+import { databaseUrl, sleep } from "#test-utils"
+
+describe("reentrancy policy", () => {
+  let locks: AdvisoryLockManager
+
+  beforeEach(() => {
+    locks = createAdvisoryLockManager(databaseUrl)
+  })
+
+  afterEach(async () => {
+    await locks.close()
+  })
+
+  async function siblings(options?: { reentrancy: "exclusive" | "session" }) {
+    const events: string[] = []
+    const task = (id: string) => async () => {
+      events.push(`${id} start`)
+      await sleep(30)
+      events.push(`${id} end`)
+    }
+
+    await locks.withLock("reentrancy-siblings", async () => {
+      await Promise.all([
+        locks.withLock("reentrancy-siblings", task("a"), options),
+        locks.withLock("reentrancy-siblings", task("b"), options),
+      ])
+    })
+    return events
+  }
+
+  it("lets siblings overlap on the shared session by default", async () => {
+    expect(await siblings()).toEqual(["a start", "b start", "a end", "b end"])
+  })
+
+  it("serializes siblings with the exclusive policy", async () => {
+    expect(await siblings({ reentrancy: "exclusive" })).toEqual([
+      "a start",
+      "a end",
+      "b start",
+      "b end",
+    ])
+  })
+
+  it("applies the keyspace default and per-call overrides", async () => {
+    const exclusive = createAdvisoryLockManager(databaseUrl, {
+      reentrancy: "exclusive",
+    })
+    try {
+      // A callback nested in the holder is reentrant.
+      expect(
+        await exclusive.withLock("reentrancy-default", () =>
+          exclusive.withLock("reentrancy-default", async () => "nested"),
+        ),
+      ).toBe("nested")
+
+      await exclusive.withLock("reentrancy-default", async () => {
+        const inner = exclusive.withLock("reentrancy-default", () => sleep(50))
+        await sleep(10)
+        expect(
+          await exclusive.tryWithLock("reentrancy-default", async () => {}),
+        ).toEqual({ acquired: false })
+        expect(
+          await exclusive.tryWithLock(
+            "reentrancy-default",
+            async () => "shared",
+            { reentrancy: "session" },
+          ),
+        ).toEqual({ acquired: true, result: "shared" })
+        await inner
+      })
+    } finally {
+      await exclusive.close()
+    }
+  })
+
+  it("times out while waiting for a sibling", async () => {
+    await locks.withLock("reentrancy-timeout", async () => {
+      const first = locks.withLock("reentrancy-timeout", () => sleep(200), {
+        reentrancy: "exclusive",
+      })
+      await expect(
+        locks.withLock("reentrancy-timeout", async () => {}, {
+          reentrancy: "exclusive",
+          timeout: 50,
+        }),
+      ).rejects.toThrow(LockTimeoutError)
+      await first
+    })
+  })
+
+  it("rejects re-acquiring a held lock with the reject policy", async () => {
+    await locks.withLock("reentrancy-reject", async () => {
+      await expect(
+        locks.withLock("reentrancy-reject", async () => {}, {
+          reentrancy: "reject",
+        }),
+      ).rejects.toThrow(ReentrantLockError)
+      await expect(
+        locks.withLocks(
+          ["reentrancy-other", "reentrancy-reject"],
+          async () => {},
+          {
+            reentrancy: "reject",
+          },
+        ),
+      ).rejects.toThrow(ReentrantLockError)
+
+      expect(
+        await locks.withLock("reentrancy-other", async () => "other", {
+          reentrancy: "reject",
+        }),
+      ).toBe("other")
+    })
+
+    expect(
+      await locks.withLock("reentrancy-reject", async () => "released", {
+        reentrancy: "reject",
+      }),
+    ).toBe("released")
+  })
+
+  it("treats the run() of a lock handle as within its lock", async () => {
+    const handle = await locks.lock("reentrancy-handle")
+    try {
+      await handle.run(async () => {
+        await expect(
+          locks.withLock("reentrancy-handle", async () => {}, {
+            reentrancy: "reject",
+          }),
+        ).rejects.toThrow(ReentrantLockError)
+        expect(
+          await locks.withLock("reentrancy-handle", async () => "nested", {
+            reentrancy: "exclusive",
+            timeout: 1_000,
+          }),
+        ).toBe("nested")
+      })
+    } finally {
+      await handle.unlock()
+    }
+  })
+})
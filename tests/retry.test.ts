@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+
+import {
+  type AdvisoryLockManager,
+  createAdvisoryLockManager,
+} from "pg-advisory-lock"
+
+import { databaseUrl, sleep } from "#test-utils"
+
+describe("retry", () => {
+  let contentions: number
+  let locks: AdvisoryLockManager
+  let otherLocks: AdvisoryLockManager
+
+  beforeEach(() => {
+    contentions = 0
+    locks = createAdvisoryLockManager(databaseUrl, {
+      hooks: {
+        contended: () => {
+          contentions += 1
+        },
+      },
+    })
+    otherLocks = createAdvisoryLockManager(databaseUrl)
+  })
+
+  afterEach(async () => {
+    await Promise.all([locks.close(), otherLocks.close()])
+  })
+
+  /** Holds the lock from another manager, resolving to the pending release. */
+  async function holdFor(name: string, ms: number) {
+    const unlock = await otherLocks.tryLock(name)
+    if (!unlock) throw new Error("Expected to acquire the lock")
+    return { released: sleep(ms).then(() => unlock()) }
+  }
+
+  it("acquires the lock once the holder releases it", async () => {
+    const { released } = await holdFor("retry-acquire", 100)
+
+    const result = await locks.tryWithLock("retry-acquire", async () => "ran", {
+      retry: { attempts: 20, backoff: "fixed", delay: 30 },
+    })
+
+    expect(result).toEqual({ acquired: true, result: "ran" })
+    expect(contentions).toBeGreaterThanOrEqual(2)
+    await released
+  })
+
+  it("gives up after the configured attempts", async () => {
+    const { released } = await holdFor("retry-attempts", 300)
+
+    const unlock = await locks.tryLock("retry-attempts", {
+      retry: { attempts: 3, backoff: "exponential", delay: 10 },
+    })
+
+    expect(unlock).toBeUndefined()
+    expect(contentions).toBe(3)
+    await released
+  })
+
+  it("bounds the total wait", async () => {
+    const { released } = await holdFor("retry-max-wait", 400)
+
+    const startedAt = Date.now()
+    const result = await locks.tryWithLock("retry-max-wait", async () => {}, {
+      retry: {
+        attempts: Number.POSITIVE_INFINITY,
+        backoff: "fixed",
+        delay: 20,
+        maxWait: 100,
+      },
+    })
+
+    expect(result).toEqual({ acquired: false })
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(100)
+    expect(Date.now() - startedAt).toBeLessThan(300)
+    await released
+  })
+
+  it("does not hold a connection between attempts", async () => {
+    const { released } = await holdFor("retry-connection", 200)
+
+    const attempt = locks.tryLock("retry-connection", {
+      retry: { attempts: 2, backoff: "fixed", delay: 100 },
+    })
+    await sleep(50)
+    expect(locks.metrics().reservedConnections).toBe(0)
+
+    expect(await attempt).toBeUndefined()
+    await released
+  })
+
+  it("rejects with the abort reason while waiting between attempts", async () => {
+    const { released } = await holdFor("retry-abort", 200)
+
+    const controller = new AbortController()
+    const reason = new Error("Stop retrying")
+    const attempt = locks.tryWithLock("retry-abort", async () => {}, {
+      retry: { attempts: 5, backoff: "fixed", delay: 100 },
+      signal: controller.signal,
+    })
+    await sleep(30)
+    controller.abort(reason)
+
+    await expect(attempt).rejects.toBe(reason)
+    await released
+  })
+})
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+
+import {
+  type AdvisoryLockManager,
+  createAdvisoryLockManager,
+} from "pg-advisory-lock"
+
+import { databaseUrl, sleep } from "#test-utils"
+
+describe("createRwMutex", () => {
+  let locks: AdvisoryLockManager
+  let otherLocks: AdvisoryLockManager
+
+  beforeEach(() => {
+    locks = createAdvisoryLockManager(databaseUrl)
+    otherLocks = createAdvisoryLockManager(databaseUrl)
+  })
+
+  afterEach(async () => {
+    await Promise.all([locks.close(), otherLocks.close()])
+  })
+
+  it("allows concurrent readers", async () => {
+    const mutex = locks.createRwMutex("rw-readers")
+    const firstRunning = Promise.withResolvers<void>()
+    const secondRan = Promise.withResolvers<void>()
+    let firstHolding = false
+
+    const first = mutex.withReadLock(async () => {
+      firstHolding = true
+      firstRunning.resolve()
+      await secondRan.promise
+      firstHolding = false
+    })
+    await firstRunning.promise
+
+    // The second reader runs while the first still holds the lock, instead of timing out behind it.
+    const overlapped = await mutex
+      .withReadLock(async () => firstHolding, { timeout: 1_000 })
+      .finally(() => secondRan.resolve())
+    await first
+
+    expect(overlapped).toBe(true)
+  })
+
+  it("excludes writers while a reader holds the lock", async () => {
+    const mutex = locks.createRwMutex("rw-exclusion")
+    const otherMutex = otherLocks.createRwMutex("rw-exclusion")
+
+    await mutex.withReadLock(async () => {
+      expect(
+        await otherMutex.tryWithWriteLock(async () => "unexpected"),
+      ).toEqual({ acquired: false })
+      expect(
+        await otherLocks.tryWithLock("rw-exclusion", async () => "unexpected"),
+      ).toEqual({ acquired: false })
+      expect(await otherMutex.tryWithReadLock(async () => "shared")).toEqual({
+        acquired: true,
+        result: "shared",
+      })
+    })
+
+    expect(await otherMutex.tryWithWriteLock(async () => "free")).toEqual({
+      acquired: true,
+      result: "free",
+    })
+  })
+
+  it("excludes readers while a writer holds the lock", async () => {
+    const otherMutex = otherLocks.createRwMutex("rw-writer")
+
+    await locks.withLock("rw-writer", async () => {
+      expect(
+        await otherMutex.tryWithReadLock(async () => "unexpected"),
+      ).toEqual({ acquired: false })
+    })
+
+    let log = ""
+    await Promise.all([
+      locks.createRwMutex("rw-writer").withWriteLock(async () => {
+        log += "a"
+        await sleep(50)
+        log += "b"
+      }),
+      sleep(1).then(() =>
+        otherMutex.withReadLock(async () => {
+          log += "c"
+        }),
+      ),
+    ])
+    expect(log).toBe("abc")
+  })
+
+  it("releases manual read and write locks", async () => {
+    const mutex = locks.createRwMutex("rw-manual")
+    const otherMutex = otherLocks.createRwMutex("rw-manual")
+
+    const unlockRead = await mutex.tryReadLock()
+    expect(unlockRead).toBeFunction()
+    expect(await otherMutex.tryWriteLock()).toBeUndefined()
+    await unlockRead?.()
+
+    const unlockWrite = await mutex.tryWriteLock()
+    expect(unlockWrite).toBeFunction()
+    expect(await otherMutex.tryReadLock()).toBeUndefined()
+    await unlockWrite?.()
+
+    expect(await otherMutex.tryWithWriteLock(async () => "free")).toEqual({
+      acquired: true,
+      result: "free",
+    })
+  })
+
+  it("isolates read/write locks by namespace", async () => {
+    await locks
+      .namespace("tenant-a")
+      .createRwMutex("rw-namespace")
+      .withWriteLock(async () => {
+        expect(
+          await otherLocks
+            .namespace("tenant-b")
+            .createRwMutex("rw-namespace")
+            .tryWithReadLock(async () => "success"),
+        ).toEqual({ acquired: true, result: "success" })
+      })
+  })
+})
@@ -0,0 +1,227 @@
+import {
+  afterAll,
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  spyOn,
+} from "bun:test"
+
+import {
+  type AdvisoryLockManager,
+  createAdvisoryLockManager,
+} from "pg-advisory-lock"
+import postgres from "postgres"
+
+import { databaseUrl, sleep } from "#test-utils"
+
+const scheduleTable = "pg_advisory_lock_test_schedule_runs"
+
+describe("scheduler", () => {
+  let locks: AdvisoryLockManager
+  let otherLocks: AdvisoryLockManager
+
+  beforeEach(() => {
+    locks = createAdvisoryLockManager(databaseUrl, { scheduleTable })
+    otherLocks = createAdvisoryLockManager(databaseUrl, { scheduleTable })
+  })
+
+  afterEach(async () => {
+    await Promise.all([locks.close(), otherLocks.close()])
+  })
+
+  afterAll(async () => {
+    const sql = postgres(databaseUrl, { max: 1 })
+    try {
+      await sql`DROP TABLE IF EXISTS ${sql(scheduleTable)}`
+    } finally {
+      await sql.end()
+    }
+  })
+
+  it("runs each tick on one instance only", async () => {
+    const runs: [string, number][] = []
+    const jobs = [locks, otherLocks].map((manager, index) =>
+      manager.schedule("schedule-once", { every: 100 }, async (context) => {
+        runs.push([context.scheduledAt.toISOString(), index])
+        await sleep(30)
+      }),
+    )
+
+    await sleep(350)
+    await Promise.all(jobs.map((job) => job.stop()))
+
+    const ticks = runs.map(([scheduledAt]) => scheduledAt)
+    expect(ticks.length).toBeGreaterThanOrEqual(2)
+    expect(new Set(ticks).size).toBe(ticks.length)
+    for (const tick of ticks) expect(Date.parse(tick) % 100).toBe(0)
+  })
+
+  it("skips ticks at or before the persisted last run", async () => {
+    const runs: Date[] = []
+    const job = locks.schedule(
+      "schedule-persisted",
+      { every: 50, persistLastRun: true },
+      async ({ scheduledAt }) => {
+        runs.push(scheduledAt)
+      },
+    )
+    await sleep(120)
+    await job.stop()
+    expect(runs.length).toBeGreaterThanOrEqual(1)
+
+    const sql = postgres(databaseUrl, { max: 1 })
+    try {
+      const { key } = await locks.inspect("schedule-persisted")
+      const [row] = await sql`
+        SELECT last_run_at FROM ${sql(scheduleTable)} WHERE key = ${String(key)}
+      `
+      expect(row?.last_run_at).toEqual(runs.at(-1))
+
+      // Another instance ran a later tick, as seen by an instance whose clock lags.
+      await sql`
+        UPDATE ${sql(scheduleTable)}
+        SET last_run_at = now() + interval '1 hour'
+        WHERE key = ${String(key)}
+      `
+    } finally {
+      await sql.end()
+    }
+
+    runs.length = 0
+    const laggingJob = otherLocks.schedule(
+      "schedule-persisted",
+      { every: 50, persistLastRun: true },
+      async ({ scheduledAt }) => {
+        runs.push(scheduledAt)
+      },
+    )
+    await sleep(120)
+    await laggingJob.stop()
+    expect(runs).toEqual([])
+  })
+
+  it("persists the runs of a bigint key and an int4 pair of the same value apart", async () => {
+    const runs: string[] = []
+    const jobs = [
+      locks.schedule(
+        7_000_001n,
+        { every: 50, persistLastRun: true },
+        async () => {
+          runs.push("bigint")
+        },
+      ),
+      locks.schedule(
+        [0, 7_000_001],
+        { every: 50, persistLastRun: true },
+        async () => {
+          runs.push("pair")
+        },
+      ),
+    ]
+
+    await sleep(180)
+    await Promise.all(jobs.map((job) => job.stop()))
+    // Both jobs run every tick, since neither claims the other's ticks.
+    expect(
+      runs.filter((run) => run === "bigint").length,
+    ).toBeGreaterThanOrEqual(2)
+    expect(runs.filter((run) => run === "pair").length).toBeGreaterThanOrEqual(
+      2,
+    )
+  })
+
+  it("reports failed runs to onError", async () => {
+    const errors: unknown[] = []
+    const job = locks.schedule(
+      "schedule-error",
+      { every: 50, onError: (error) => errors.push(error) },
+      async () => {
+        throw new Error("Job failed")
+      },
+    )
+
+    await sleep(80)
+    await job.stop()
+    expect(errors[0]).toHaveProperty("message", "Job failed")
+  })
+
+  it("logs failed runs without onError and keeps firing", async () => {
+    const logged = spyOn(console, "error").mockImplementation(() => {})
+    try {
+      let runs = 0
+      const job = locks.schedule(
+        "schedule-unhandled",
+        { every: 50 },
+        async () => {
+          runs += 1
+          throw new Error("Job failed")
+        },
+      )
+
+      await sleep(130)
+      await job.stop()
+      expect(runs).toBeGreaterThanOrEqual(2)
+      expect(logged).toHaveBeenCalledTimes(runs)
+      expect(logged.mock.calls[0]?.[0]).toHaveProperty("message", "Job failed")
+    } finally {
+      logged.mockRestore()
+    }
+  })
+
+  it("creates the signal of a run only on demand", async () => {
+    const { AbortController: NativeAbortController } = globalThis
+    let controllers = 0
+    globalThis.AbortController = class extends NativeAbortController {
+      constructor() {
+        super()
+        controllers += 1
+      }
+    }
+    try {
+      const ran = Promise.withResolvers<void>()
+      const job = locks.schedule("schedule-lazy", { every: 50 }, async () => {
+        ran.resolve()
+      })
+      await ran.promise
+      await job.stop()
+      expect(controllers).toBe(0)
+
+      const signalled = Promise.withResolvers<boolean>()
+      const signalJob = locks.schedule(
+        "schedule-lazy",
+        { every: 50 },
+        async ({ signal }) => {
+          signalled.resolve(signal.aborted)
+        },
+      )
+      expect(await signalled.promise).toBe(false)
+      await signalJob.stop()
+      expect(controllers).toBe(1)
+    } finally {
+      globalThis.AbortController = NativeAbortController
+    }
+  })
+
+  it("stops when the manager closes", async () => {
+    const job = locks.schedule(
+      "schedule-close",
+      { cron: "* * * * *" },
+      async () => {},
+    )
+    expect(job.nextRunAt?.getUTCSeconds()).toBe(0)
+
+    await locks.close()
+    expect(job.nextRunAt).toBeUndefined()
+  })
+
+  it("rejects invalid timings", () => {
+    expect(() =>
+      locks.schedule("schedule-invalid", { every: 0 }, async () => {}),
+    ).toThrow(RangeError)
+    expect(() =>
+      locks.schedule("schedule-invalid", { cron: "daily" }, async () => {}),
+    ).toThrow(RangeError)
+  })
+})
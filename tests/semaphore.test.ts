@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+
+import {
+  type AdvisoryLockManager,
+  createAdvisoryLockManager,
+  LockTimeoutError,
+} from "pg-advisory-lock"
+
+import { databaseUrl, sleep } from "#test-utils"
+
+describe("createSemaphore", () => {
+  let locks: AdvisoryLockManager
+  let otherLocks: AdvisoryLockManager
+
+  beforeEach(() => {
+    locks = createAdvisoryLockManager(databaseUrl)
+    otherLocks = createAdvisoryLockManager(databaseUrl)
+  })
+
+  afterEach(async () => {
+    await Promise.all([locks.close(), otherLocks.close()])
+  })
+
+  it("admits up to the permit count across managers", async () => {
+    let running = 0
+    let maxRunning = 0
+    const task = async () => {
+      running += 1
+      maxRunning = Math.max(maxRunning, running)
+      await sleep(30)
+      running -= 1
+    }
+
+    const semaphore = locks.createSemaphore("semaphore-cap", 2)
+    const otherSemaphore = otherLocks.createSemaphore("semaphore-cap", 2)
+    await Promise.all([
+      semaphore.withPermit(task),
+      semaphore.withPermit(task),
+      semaphore.withPermit(task),
+      otherSemaphore.withPermit(task),
+      otherSemaphore.withPermit(task),
+    ])
+
+    expect(semaphore.permits).toBe(2)
+    expect(maxRunning).toBe(2)
+  })
+
+  it("reports unavailable permits without waiting", async () => {
+    const semaphore = locks.createSemaphore("semaphore-try", 2)
+    const otherSemaphore = otherLocks.createSemaphore("semaphore-try", 2)
+    const holding = Promise.withResolvers<void>()
+    const release = Promise.withResolvers<void>()
+
+    const holder = semaphore.withPermit(async () => {
+      const nested = await otherSemaphore.tryWithPermit(async () => {
+        holding.resolve()
+        await release.promise
+        return "second"
+      })
+      return nested
+    })
+
+    await holding.promise
+    expect(
+      await otherSemaphore.tryWithPermit(async () => "unexpected"),
+    ).toEqual({ acquired: false })
+
+    release.resolve()
+    expect(await holder).toEqual({ acquired: true, result: "second" })
+    expect(await otherSemaphore.tryWithPermit(async () => "free")).toEqual({
+      acquired: true,
+      result: "free",
+    })
+  })
+
+  it("limits sibling callbacks nested in one lock context", async () => {
+    const semaphore = locks.createSemaphore("semaphore-nested", 1)
+    let running = 0
+    let maxRunning = 0
+    const task = async () => {
+      running += 1
+      maxRunning = Math.max(maxRunning, running)
+      await sleep(20)
+      running -= 1
+    }
+
+    await locks.withLock("semaphore-nested-outer", async () => {
+      await Promise.all([
+        semaphore.withPermit(task),
+        semaphore.withPermit(task),
+        semaphore.withPermit(task),
+      ])
+
+      const holding = Promise.withResolvers<void>()
+      const release = Promise.withResolvers<void>()
+      const holder = semaphore.withPermit(async () => {
+        holding.resolve()
+        await release.promise
+      })
+      await holding.promise
+      expect(await semaphore.tryWithPermit(async () => "unexpected")).toEqual({
+        acquired: false,
+      })
+      release.resolve()
+      await holder
+    })
+
+    expect(maxRunning).toBe(1)
+  })
+
+  it("takes whichever permit is released first", async () => {
+    const semaphore = locks.createSemaphore("semaphore-first-free", 2)
+    const otherSemaphore = otherLocks.createSemaphore("semaphore-first-free", 2)
+    const hold = async () => {
+      const holding = Promise.withResolvers<void>()
+      const release = Promise.withResolvers<void>()
+      const held = otherSemaphore.withPermit(async () => {
+        holding.resolve()
+        await release.promise
+      })
+      await holding.promise
+      return async () => {
+        release.resolve()
+        await held
+      }
+    }
+
+    const releaseLong = await hold()
+    try {
+      // Whichever permit the short holder took, the waiter takes it instead of waiting for the long holder.
+      for (let round = 0; round < 3; round += 1) {
+        const releaseShort = await hold()
+        const startedAt = Date.now()
+        const waiting = semaphore.withPermit(async () => Date.now() - startedAt)
+        await sleep(50)
+        await releaseShort()
+        expect(await waiting).toBeLessThan(1_000)
+      }
+    } finally {
+      await releaseLong()
+    }
+  })
+
+  it("does not share keys with a namespace named after it", async () => {
+    const unlock = await locks.namespace("semaphore-keys").tryLock("0")
+    try {
+      expect(unlock).toBeFunction()
+      expect(
+        await otherLocks
+          .createSemaphore("semaphore-keys", 1)
+          .tryWithPermit(async () => "permit"),
+      ).toEqual({ acquired: true, result: "permit" })
+    } finally {
+      await unlock?.()
+    }
+  })
+
+  it("times out when every permit is held", async () => {
+    const semaphore = otherLocks.createSemaphore("semaphore-timeout", 1)
+
+    await semaphore.withPermit(async () => {
+      const error = await locks
+        .createSemaphore("semaphore-timeout", 1)
+        .withPermit(async () => "unexpected", { timeout: 50 })
+        .catch((error: unknown) => error)
+
+      expect(error).toBeInstanceOf(LockTimeoutError)
+      expect(error).toMatchObject({
+        lockName: "semaphore-timeout",
+        namespaces: [],
+        timeout: 50,
+      })
+    })
+  })
+
+  it("rejects invalid permit counts", () => {
+    expect(() => locks.createSemaphore("semaphore-invalid", 0)).toThrow(
+      RangeError,
+    )
+    expect(() => locks.createSemaphore("semaphore-invalid", 1.5)).toThrow(
+      RangeError,
+    )
+  })
+})
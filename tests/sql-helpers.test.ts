@@ -0,0 +1,77 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test"
+
+import {
+  type AdvisoryLockManager,
+  createAdvisoryLockManager,
+} from "pg-advisory-lock"
+import postgres from "postgres"
+
+import { databaseUrl } from "#test-utils"
+
+const schema = "advisory_lock_test_helpers"
+
+describe("SQL helpers", () => {
+  let sql: postgres.Sql
+  let locks: AdvisoryLockManager
+
+  beforeAll(async () => {
+    sql = postgres(databaseUrl, { max: 1 })
+    locks = createAdvisoryLockManager(databaseUrl)
+    await sql`CREATE SCHEMA IF NOT EXISTS ${sql(schema)}`
+    await locks.installSqlHelpers({ schema })
+  })
+
+  afterAll(async () => {
+    await locks.close()
+    try {
+      await sql`DROP FUNCTION IF EXISTS ${sql(schema)}.advisory_lock_key_v1(text, text[])`
+      await sql`DROP SCHEMA IF EXISTS ${sql(schema)}`
+    } finally {
+      await sql.end()
+    }
+  })
+
+  async function sqlKey(name: string, namespaces?: string[]) {
+    const [row] =
+      namespaces === undefined
+        ? await sql`SELECT ${sql(schema)}.advisory_lock_key_v1(${name})::text`.values()
+        : await sql`SELECT ${sql(schema)}.advisory_lock_key_v1(${name}, ${namespaces})::text`.values()
+    return BigInt(String(row?.[0]))
+  }
+
+  it("derives the same keys as the manager", async () => {
+    expect(await sqlKey("job")).toBe((await locks.inspect("job")).key)
+    expect(await sqlKey("job", ["tenant-a", "jobs"])).toBe(
+      (await locks.namespace("tenant-a").namespace("jobs").inspect("job")).key,
+    )
+    expect(await sqlKey("Straße", ["ü"])).toBe(
+      (await locks.namespace("ü").inspect("Straße")).key,
+    )
+  })
+
+  it("takes the lock a keyspace takes", async () => {
+    await locks.namespace("tenant-a").withLock("helper-lock", async () => {
+      const [row] = await sql`
+        SELECT pg_try_advisory_lock(
+          ${sql(schema)}.advisory_lock_key_v1('helper-lock', ARRAY['tenant-a'])
+        )::text
+      `.values()
+      expect(row?.[0]).toBe("false")
+    })
+  })
+
+  it("installs idempotently and concurrently", async () => {
+    const otherLocks = createAdvisoryLockManager(databaseUrl)
+    try {
+      await sql`DROP FUNCTION ${sql(schema)}.advisory_lock_key_v1(text, text[])`
+      await Promise.all([
+        locks.installSqlHelpers({ schema }),
+        otherLocks.installSqlHelpers({ schema }),
+        locks.installSqlHelpers({ schema }),
+      ])
+      expect(await sqlKey("job")).toBe((await locks.inspect("job")).key)
+    } finally {
+      await otherLocks.close()
+    }
+  })
+})
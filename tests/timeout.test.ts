@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+
+import {
+  type AdvisoryLockManager,
+  createAdvisoryLockManager,
+  LockTimeoutError,
+} from "pg-advisory-lock"
+import postgres from "postgres"
+
+import { databaseUrl, sleep } from "#test-utils"
+
+describe("acquisition timeout", () => {
+  let contenderPool: postgres.Sql
+  let contenderLocks: AdvisoryLockManager
+  let holderLocks: AdvisoryLockManager
+  let observerLocks: AdvisoryLockManager
+
+  beforeEach(() => {
+    contenderPool = postgres(databaseUrl, { max: 1 })
+    contenderLocks = createAdvisoryLockManager(contenderPool)
+    holderLocks = createAdvisoryLockManager(databaseUrl)
+    observerLocks = createAdvisoryLockManager(databaseUrl)
+  })
+
+  afterEach(async () => {
+    await Promise.all([
+      contenderLocks.close(),
+      holderLocks.close(),
+      observerLocks.close(),
+    ])
+    await contenderPool.end()
+  })
+
+  async function holdLock(name: string) {
+    const unlock = await holderLocks.tryLock(name)
+    if (!unlock) throw new Error("Expected to acquire the lock")
+    return unlock
+  }
+
+  it("rejects with LockTimeoutError and releases the connection", async () => {
+    const unlock = await holdLock("timeout-held")
+    let callbackCalled = false
+
+    try {
+      const error = await contenderLocks
+        .withLock(
+          "timeout-held",
+          async () => {
+            callbackCalled = true
+          },
+          { timeout: 50 },
+        )
+        .catch((error: unknown) => error)
+
+      expect(error).toBeInstanceOf(LockTimeoutError)
+      expect(error).toMatchObject({
+        lockName: "timeout-held",
+        namespaces: [],
+        timeout: 50,
+      })
+      expect(callbackCalled).toBe(false)
+
+      // The only pooled connection is usable again.
+      expect(
+        await contenderLocks.tryWithLock("timeout-other", async () => "free"),
+      ).toEqual({ acquired: true, result: "free" })
+    } finally {
+      await unlock()
+    }
+
+    expect(
+      await observerLocks.tryWithLock("timeout-held", async () => "success"),
+    ).toEqual({ acquired: true, result: "success" })
+  })
+
+  it("cancels the blocked backend query", async () => {
+    const unlock = await holdLock("timeout-cancelled")
+
+    try {
+      await expect(
+        contenderLocks.withLock("timeout-cancelled", async () => {}, {
+          timeout: 50,
+        }),
+      ).rejects.toThrow(LockTimeoutError)
+
+      const waiting = await contenderPool`
+        SELECT FROM pg_stat_activity
+        WHERE wait_event_type = 'Lock' AND wait_event = 'advisory'
+      `
+      expect(waiting.count).toBe(0)
+    } finally {
+      await unlock()
+    }
+  })
+
+  it("bounds the wait for a connection of an exhausted pool", async () => {
+    // The only pooled connection holds this lock.
+    const handle = await contenderLocks.lock("timeout-pool-held")
+    let callbackCalled = false
+
+    try {
+      const error = await contenderLocks
+        .withLock(
+          "timeout-pool-free",
+          async () => {
+            callbackCalled = true
+          },
+          { timeout: 50 },
+        )
+        .catch((error: unknown) => error)
+      expect(error).toBeInstanceOf(LockTimeoutError)
+      expect(error).toMatchObject({
+        lockName: "timeout-pool-free",
+        timeout: 50,
+      })
+      await expect(
+        contenderLocks.lock("timeout-pool-free", { timeout: 50 }),
+      ).rejects.toThrow(LockTimeoutError)
+      expect(callbackCalled).toBe(false)
+    } finally {
+      await handle.unlock()
+    }
+
+    // The connections reserved after the timeouts went back to the pool.
+    expect(
+      await contenderLocks.withLock("timeout-pool-free", async () => "free", {
+        timeout: 1000,
+      }),
+    ).toBe("free")
+  })
+
+  it("acquires the lock when it becomes available in time", async () => {
+    const unlock = await holdLock("timeout-available")
+
+    const result = contenderLocks.withLock(
+      "timeout-available",
+      async () => "success",
+      { timeout: 1000 },
+    )
+    await sleep(50)
+    await unlock()
+
+    expect(await result).toBe("success")
+  })
+
+  it("applies keyspace defaults and per-call overrides", async () => {
+    const locks = createAdvisoryLockManager(contenderPool, { timeout: 50 })
+    const unlock = await holdLock("timeout-default")
+
+    try {
+      await expect(
+        locks.withLock("timeout-default", async () => "unexpected"),
+      ).rejects.toThrow(LockTimeoutError)
+
+      const waiting = locks.withLock("timeout-default", async () => "success", {
+        timeout: Number.POSITIVE_INFINITY,
+      })
+      await sleep(100)
+      await unlock()
+      expect(await waiting).toBe("success")
+    } finally {
+      await unlock()
+      await locks.close()
+    }
+  })
+
+  it("inherits and overrides defaults in namespaces", async () => {
+    const locks = createAdvisoryLockManager(contenderPool, { timeout: 50 })
+    const holderNamespace = holderLocks.namespace("tenant")
+    const unlock = await holderNamespace.tryLock("timeout-namespace")
+    if (!unlock) throw new Error("Expected to acquire the lock")
+
+    try {
+      await expect(
+        locks.namespace("tenant").withLock("timeout-namespace", async () => {}),
+      ).rejects.toThrow(LockTimeoutError)
+
+      const error = await locks
+        .namespace("tenant", { timeout: 20 })
+        .createMutex("timeout-namespace")
+        .withLock(async () => {})
+        .catch((error: unknown) => error)
+      expect(error).toMatchObject({ namespaces: ["tenant"], timeout: 20 })
+    } finally {
+      await unlock()
+      await locks.close()
+    }
+  })
+
+  it("applies the timeout to wrapped functions", async () => {
+    const unlock = await holdLock("timeout-wrapped")
+    const wrapped = contenderLocks.wrapWithLock(
+      "timeout-wrapped",
+      async (value: number) => value * 2,
+      { timeout: 50 },
+    )
+
+    try {
+      await expect(wrapped(21)).rejects.toThrow(LockTimeoutError)
+    } finally {
+      await unlock()
+    }
+
+    expect(await wrapped(21)).toBe(42)
+  })
+})
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+
+import type { Attributes, Span, SpanOptions, Tracer } from "@opentelemetry/api"
+import {
+  type AdvisoryLockManager,
+  createAdvisoryLockManager,
+  LockTimeoutError,
+} from "pg-advisory-lock"
+
+import { databaseUrl } from "#test-utils"
+
+type RecordedSpan = {
+  name: string
+  attributes: Attributes
+  events: string[]
+  exceptions: unknown[]
+  status?: { code: number }
+  ended: boolean
+}
+
+function createRecordingTracer(spans: RecordedSpan[]) {
+  return {
+    startSpan(name: string, options: SpanOptions = {}) {
+      const recorded: RecordedSpan = {
+        name,
+        attributes: { ...options.attributes },
+        events: [],
+        exceptions: [],
+        ended: false,
+      }
+      spans.push(recorded)
+      const span = {
+        addEvent(event: string) {
+          recorded.events.push(event)
+          return span
+        },
+        end() {
+          recorded.ended = true
+        },
+        recordException(exception: unknown) {
+          recorded.exceptions.push(exception)
+        },
+        setAttribute(key: string, value: unknown) {
+          recorded.attributes[key] = value as Attributes[string]
+          return span
+        },
+        setStatus(status: { code: number }) {
+          recorded.status = status
+          return span
+        },
+      }
+      return span as unknown as Span
+    },
+  } as Tracer
+}
+
+describe("tracing", () => {
+  let locks: AdvisoryLockManager
+  let otherLocks: AdvisoryLockManager
+  let spans: RecordedSpan[]
+
+  beforeEach(() => {
+    spans = []
+    locks = createAdvisoryLockManager(databaseUrl, {
+      tracer: createRecordingTracer(spans),
+    })
+    otherLocks = createAdvisoryLockManager(databaseUrl)
+  })
+
+  afterEach(async () => {
+    await Promise.all([locks.close(), otherLocks.close()])
+  })
+
+  it("creates a span covering the wait and hold of withLock", async () => {
+    await locks.namespace("tenant-a").withLock("trace-basic", async () => {
+      expect(spans[0]?.ended).toBe(false)
+    })
+
+    expect(spans).toEqual([
+      {
+        name: "advisory lock withLock",
+        attributes: {
+          "lock.mode": "exclusive",
+          "lock.name": "trace-basic",
+          "lock.namespaces": ["tenant-a"],
+          "lock.nested": false,
+          "lock.operation": "withLock",
+          "lock.outcome": "acquired",
+        },
+        events: ["acquired"],
+        exceptions: [],
+        ended: true,
+      },
+    ])
+  })
+
+  it("marks nested reuse of the connection", async () => {
+    await locks.withLock("trace-outer", async () => {
+      const unlock = await locks.tryLock("trace-inner")
+      await unlock?.()
+    })
+
+    expect(
+      spans.map((span) => [span.name, span.attributes["lock.nested"]]),
+    ).toEqual([
+      ["advisory lock withLock", false],
+      ["advisory lock tryLock", true],
+    ])
+  })
+
+  it("records contention and timeouts", async () => {
+    const unlock = await otherLocks.tryLock("trace-busy")
+    if (!unlock) throw new Error("Expected to acquire the lock")
+
+    try {
+      await locks.tryWithLock("trace-busy", async () => {})
+      await locks
+        .withLock("trace-busy", async () => {}, { timeout: 20 })
+        .catch(() => {})
+    } finally {
+      await unlock()
+    }
+
+    expect(spans).toMatchObject([
+      {
+        attributes: { "lock.outcome": "contended" },
+        ended: true,
+        exceptions: [],
+      },
+      {
+        attributes: { "lock.outcome": "timeout" },
+        ended: true,
+        exceptions: [expect.any(LockTimeoutError)],
+        status: { code: 2 },
+      },
+    ])
+    expect(spans[0]?.status).toBeUndefined()
+  })
+})
@@ -1,9 +1,13 @@
 import { describe, expectTypeOf, test } from "bun:test"
 
 import {
+  type AdvisoryLockCloseOptions,
+  type AdvisoryLockCloseResult,
+  type AdvisoryLockKey,
   type AdvisoryLockKeyspace,
   type AdvisoryLockManager,
   type AdvisoryMutex,
+  type AdvisoryRwMutex,
   createAdvisoryLockManager,
   type TryWithLockResult,
 } from "pg-advisory-lock"
@@ -175,10 +179,14 @@ describe("createAdvisoryLockManager return type tests", () => {
   test("should include wrapWithLock in the return type", () => {
     const result = createAdvisoryLockManager(databaseUrl)
 
-    expectTypeOf(result.close).toEqualTypeOf<() => Promise<void>>()
+    expectTypeOf(result.close).toEqualTypeOf<
+      (options?: AdvisoryLockCloseOptions) => Promise<AdvisoryLockCloseResult>
+    >()
     expectTypeOf(result).toHaveProperty("wrapWithLock")
     expectTypeOf(result.wrapWithLock).toBeFunction()
-    expectTypeOf(result.wrapWithLock).parameter(0).toBeString()
+    expectTypeOf(result.wrapWithLock)
+      .parameter(0)
+      .toEqualTypeOf<AdvisoryLockKey>()
     expectTypeOf(result.wrapWithLock).parameter(1).toBeFunction()
     expectTypeOf(result.wrapWithLock).returns.toBeFunction()
   })
@@ -191,6 +199,9 @@ describe("createAdvisoryLockManager return type tests", () => {
     expectTypeOf(manager).toEqualTypeOf<AdvisoryLockManager>()
     expectTypeOf(namespace).toEqualTypeOf<AdvisoryLockKeyspace>()
     expectTypeOf(mutex).toEqualTypeOf<AdvisoryMutex>()
+    expectTypeOf(
+      namespace.createRwMutex("job"),
+    ).toEqualTypeOf<AdvisoryRwMutex>()
     expectTypeOf(mutex.tryWithLock(async () => "done")).toEqualTypeOf<
       Promise<TryWithLockResult<string>>
     >()
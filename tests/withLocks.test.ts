@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+
+import {
+  type AdvisoryLockManager,
+  createAdvisoryLockManager,
+  LockTimeoutError,
+} from "pg-advisory-lock"
+
+import { databaseUrl, sleep } from "#test-utils"
+
+describe("withLocks", () => {
+  let locks: AdvisoryLockManager
+  let otherLocks: AdvisoryLockManager
+
+  beforeEach(() => {
+    locks = createAdvisoryLockManager(databaseUrl)
+    otherLocks = createAdvisoryLockManager(databaseUrl)
+  })
+
+  afterEach(async () => {
+    await Promise.all([locks.close(), otherLocks.close()])
+  })
+
+  async function isFree(name: string) {
+    const result = await otherLocks.tryWithLock(name, async () => "free")
+    return result.acquired
+  }
+
+  it("holds every lock for the callback and releases them", async () => {
+    const result = await locks.withLocks(
+      ["multi-a", "multi-b", "multi-c"],
+      async () => [
+        await isFree("multi-a"),
+        await isFree("multi-b"),
+        await isFree("multi-c"),
+      ],
+    )
+
+    expect(result).toEqual([false, false, false])
+    expect(await isFree("multi-a")).toBe(true)
+    expect(await isFree("multi-b")).toBe(true)
+    expect(await isFree("multi-c")).toBe(true)
+  })
+
+  it("does not deadlock when callers list names in different orders", async () => {
+    const names = ["multi-order-1", "multi-order-2", "multi-order-3"]
+    let running = 0
+    let maxRunning = 0
+
+    const run = (order: string[]) =>
+      locks.withLocks(order, async () => {
+        running += 1
+        maxRunning = Math.max(maxRunning, running)
+        await sleep(10)
+        running -= 1
+      })
+
+    await Promise.all(
+      Array.from({ length: 3 }, () => [
+        run(names),
+        run([...names].reverse()),
+        otherLocks.withLocks([names[1], names[2], names[0]] as string[], () =>
+          sleep(10),
+        ),
+      ]).flat(),
+    )
+
+    expect(maxRunning).toBe(1)
+  })
+
+  it("releases acquired locks when the acquisition times out", async () => {
+    const unlock = await otherLocks.tryLock("multi-timeout-b")
+    if (!unlock) throw new Error("Expected to acquire the lock")
+
+    try {
+      const error = await locks
+        .withLocks(
+          ["multi-timeout-a", "multi-timeout-b", "multi-timeout-c"],
+          async () => "unexpected",
+          { timeout: 50 },
+        )
+        .catch((error: unknown) => error)
+
+      expect(error).toBeInstanceOf(LockTimeoutError)
+      expect(error).toMatchObject({ timeout: 50 })
+      expect(await isFree("multi-timeout-a")).toBe(true)
+      expect(await isFree("multi-timeout-c")).toBe(true)
+    } finally {
+      await unlock()
+    }
+  })
+
+  it("ignores duplicate names", async () => {
+    await locks.withLocks(["multi-dup", "multi-dup"], async () => {
+      expect(await isFree("multi-dup")).toBe(false)
+    })
+
+    expect(await isFree("multi-dup")).toBe(true)
+  })
+
+  it("derives keys within the namespace", async () => {
+    await locks
+      .namespace("tenant-a")
+      .withLocks(["multi-ns-1", "multi-ns-2"], async () => {
+        expect(
+          await otherLocks
+            .namespace("tenant-a")
+            .tryWithLock("multi-ns-2", async () => "unexpected"),
+        ).toEqual({ acquired: false })
+        expect(await isFree("multi-ns-2")).toBe(true)
+      })
+  })
+})
+
+describe("tryWithLocks", () => {
+  let locks: AdvisoryLockManager
+  let otherLocks: AdvisoryLockManager
+
+  beforeEach(() => {
+    locks = createAdvisoryLockManager(databaseUrl)
+    otherLocks = createAdvisoryLockManager(databaseUrl)
+  })
+
+  afterEach(async () => {
+    await Promise.all([locks.close(), otherLocks.close()])
+  })
+
+  it("acquires all locks when available", async () => {
+    const result = await locks.tryWithLocks(
+      ["multi-try-a", "multi-try-b"],
+      async () =>
+        otherLocks.tryWithLock("multi-try-b", async () => "unexpected"),
+    )
+
+    expect(result).toEqual({ acquired: true, result: { acquired: false } })
+  })
+
+  it("acquires none when any lock is unavailable", async () => {
+    const unlock = await otherLocks.tryLock("multi-none-b")
+    if (!unlock) throw new Error("Expected to acquire the lock")
+    let callbackCalled = false
+
+    try {
+      const result = await locks.tryWithLocks(
+        ["multi-none-a", "multi-none-b", "multi-none-c"],
+        async () => {
+          callbackCalled = true
+        },
+      )
+
+      expect(result).toEqual({ acquired: false })
+      expect(callbackCalled).toBe(false)
+      expect(
+        await otherLocks.tryWithLocks(
+          ["multi-none-a", "multi-none-c"],
+          async () => "free",
+        ),
+      ).toEqual({ acquired: true, result: "free" })
+    } finally {
+      await unlock()
+    }
+  })
+})
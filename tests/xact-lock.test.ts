@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+
+import {
+  type AdvisoryLockManager,
+  createAdvisoryLockManager,
+  LockTimeoutError,
+} from "pg-advisory-lock"
+import postgres from "postgres"
+
+import { databaseUrl } from "#test-utils"
+
+describe("transaction-level locks", () => {
+  let sql: postgres.Sql
+  let locks: AdvisoryLockManager
+  let sessionLocks: AdvisoryLockManager
+
+  beforeEach(() => {
+    sql = postgres(databaseUrl)
+    locks = createAdvisoryLockManager(sql)
+    sessionLocks = createAdvisoryLockManager(databaseUrl)
+  })
+
+  afterEach(async () => {
+    await Promise.all([locks.close(), sessionLocks.close()])
+    await sql.end()
+  })
+
+  it("coordinates with session-level locks on the same name", async () => {
+    await sql.begin(async (tx) => {
+      await locks.xactLock(tx, "xact-shared-key")
+
+      expect(
+        await sessionLocks.tryWithLock(
+          "xact-shared-key",
+          async () => "unexpected",
+        ),
+      ).toEqual({ acquired: false })
+    })
+
+    expect(
+      await sessionLocks.tryWithLock("xact-shared-key", async () => "free"),
+    ).toEqual({ acquired: true, result: "free" })
+  })
+
+  it("releases the lock on rollback", async () => {
+    await expect(
+      sql.begin(async (tx) => {
+        await locks.createMutex("xact-rollback").xactLock(tx)
+        throw new Error("Rollback")
+      }),
+    ).rejects.toThrow("Rollback")
+
+    expect(
+      await sessionLocks.tryWithLock("xact-rollback", async () => "free"),
+    ).toEqual({ acquired: true, result: "free" })
+  })
+
+  it("tries without waiting for a session-level holder", async () => {
+    await sessionLocks.withLock("xact-try", async () => {
+      expect(await sql.begin((tx) => locks.tryXactLock(tx, "xact-try"))).toBe(
+        false,
+      )
+    })
+
+    expect(await sql.begin((tx) => locks.tryXactLock(tx, "xact-try"))).toBe(
+      true,
+    )
+  })
+
+  it("derives keys through namespaces", async () => {
+    await sessionLocks.namespace("tenant-a").withLock("xact-ns", async () => {
+      const [sameNamespace, otherNamespace] = await sql.begin((tx) => [
+        locks.namespace("tenant-a").tryXactLock(tx, "xact-ns"),
+        locks.namespace("tenant-b").tryXactLock(tx, "xact-ns"),
+      ])
+
+      expect(sameNamespace).toBe(false)
+      expect(otherNamespace).toBe(true)
+    })
+  })
+
+  it("times out a blocked transaction-level lock", async () => {
+    await sessionLocks.withLock("xact-timeout", async () => {
+      await expect(
+        sql.begin((tx) => locks.xactLock(tx, "xact-timeout", { timeout: 50 })),
+      ).rejects.toThrow(LockTimeoutError)
+    })
+  })
+
+  it("accepts transactions from typed postgres.js instances", async () => {
+    const typedSql = postgres(databaseUrl, {
+      max: 1,
+      types: { bigint: postgres.BigInt },
+    })
+
+    try {
+      expect(
+        await typedSql.begin((tx) => locks.tryXactLock(tx, "xact-typed")),
+      ).toBe(true)
+    } finally {
+      await typedSql.end()
+    }
+  })
+})